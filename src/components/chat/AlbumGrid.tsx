@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Attachment } from '@/components/chat/types';
+
+interface AlbumGridProps {
+  attachments: Attachment[];
+  // Upload progress per photo while the album is being sent
+  progress?: number[];
+  onOpen: (attachment: Attachment) => void;
+}
+
+// Tiles shown in the bubble; the rest are behind a "+N" on the last one
+const VISIBLE_TILES = 4;
+// Long enough to keep the tiles loaded while scrolling around
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const TILE_LAYOUTS: Record<number, string[]> = {
+  2: ['aspect-[3/4]', 'aspect-[3/4]'],
+  3: ['row-span-2', 'aspect-square', 'aspect-square'],
+};
+
+export const AlbumGrid: React.FC<AlbumGridProps> = ({ attachments, progress, onOpen }) => {
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+  const [loaded, setLoaded] = useState<Set<string>>(new Set());
+
+  // Joined so the effect only re-runs when the album itself changes
+  const pathsKey = attachments.map(a => a.storage_path).filter(Boolean).join('\n');
+
+  // chat-files is private, so the whole album is signed in one request
+  useEffect(() => {
+    const storagePaths = pathsKey ? pathsKey.split('\n') : [];
+    if (storagePaths.length === 0) return;
+    let cancelled = false;
+    supabase.storage
+      .from('chat-files')
+      .createSignedUrls(storagePaths, SIGNED_URL_TTL_SECONDS)
+      .then(({ data, error }) => {
+        if (error) throw error;
+        if (cancelled) return;
+        const urls: Record<string, string> = {};
+        data.forEach(entry => {
+          if (entry.path && entry.signedUrl) urls[entry.path] = entry.signedUrl;
+        });
+        setSignedUrls(urls);
+      })
+      .catch(error => console.error('Error loading album:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pathsKey]);
+
+  const getUrl = (attachment: Attachment) => attachment.preview_url ?? signedUrls[attachment.storage_path] ?? null;
+
+  const visible = attachments.slice(0, VISIBLE_TILES);
+  const hiddenCount = attachments.length - visible.length;
+  const layout = TILE_LAYOUTS[visible.length] ?? [];
+
+  return (
+    <div className="grid w-64 grid-cols-2 gap-1 overflow-hidden rounded-xl sm:w-72">
+      {visible.map((attachment, index) => {
+        const url = getUrl(attachment);
+        const fraction = progress?.[index];
+        const isUploading = progress !== undefined && (fraction ?? 0) < 1;
+        return (
+          <button
+            key={attachment.id}
+            type="button"
+            onClick={() => onOpen(attachment)}
+            title={attachment.file_name}
+            className={`relative overflow-hidden bg-gray-200 ${layout[index] ?? 'aspect-square'}`}
+          >
+            {attachment.thumbnail && !loaded.has(attachment.id) && (
+              <img src={attachment.thumbnail} alt="" aria-hidden className="absolute inset-0 h-full w-full scale-110 object-cover blur-md" />
+            )}
+            {url && (
+              <img
+                src={url}
+                alt={attachment.file_name}
+                loading="lazy"
+                onLoad={() => setLoaded(prev => new Set(prev).add(attachment.id))}
+                className={`absolute inset-0 h-full w-full object-cover transition-opacity duration-300 ${loaded.has(attachment.id) ? 'opacity-100' : 'opacity-0'}`}
+              />
+            )}
+            {isUploading && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/40 text-xs font-semibold text-white">
+                {Math.round((fraction ?? 0) * 100)}%
+                <div className="h-1 w-2/3 overflow-hidden rounded-full bg-white/30">
+                  <div className="h-full bg-white transition-all" style={{ width: `${(fraction ?? 0) * 100}%` }} />
+                </div>
+              </div>
+            )}
+            {hiddenCount > 0 && index === visible.length - 1 && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/50 text-2xl font-semibold text-white">
+                +{hiddenCount}
+              </div>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
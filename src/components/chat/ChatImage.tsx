@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import { ImageOff, Loader2 } from 'lucide-react';
+import { resolveChatImageUrl } from '@/lib/chatImages';
+
+interface ChatImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  // messages.image_url, or a local preview URL for an unsent image
+  imageUrl: string;
+  // Size of the box shown while the URL is being signed
+  placeholderClassName?: string;
+}
+
+// An image message's picture, signed for display since chat-images is private
+export const ChatImage: React.FC<ChatImageProps> = ({ imageUrl, alt, placeholderClassName = 'h-32 w-48 rounded-xl', ...props }) => {
+  const [src, setSrc] = useState<string | null>(imageUrl.startsWith('blob:') ? imageUrl : null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    resolveChatImageUrl(imageUrl)
+      .then(url => {
+        if (!cancelled) setSrc(url);
+      })
+      .catch(error => {
+        console.error('Error loading image:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  if (!src || failed) {
+    return (
+      <div className={`flex flex-shrink-0 items-center justify-center bg-gray-100 text-gray-400 ${placeholderClassName}`}>
+        {failed ? <ImageOff className="h-5 w-5" /> : <Loader2 className="h-5 w-5 animate-spin" />}
+      </div>
+    );
+  }
+  return <img src={src} alt={alt} onError={() => setFailed(true)} {...props} />;
+};
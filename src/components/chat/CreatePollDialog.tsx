@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { BarChart3, CalendarClock, Loader2, Plus, X } from 'lucide-react';
+import { ScheduleTimePicker } from '@/components/chat/ScheduleTimePicker';
+import { getDefaultScheduleTime, formatScheduleTime } from '@/lib/schedule';
+import type { PollDraft } from '@/components/chat/types';
+
+interface CreatePollDialogProps {
+  open: boolean;
+  // Resolves to false when the poll could not be created, keeping the draft
+  onCreate: (draft: PollDraft) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Mirror the checks in public.create_poll() and the polls tables
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+const MAX_QUESTION_LENGTH = 300;
+const MAX_OPTION_LENGTH = 100;
+
+export const CreatePollDialog: React.FC<CreatePollDialogProps> = ({ open, onCreate, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [allowsMultiple, setAllowsMultiple] = useState(false);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [closesAt, setClosesAt] = useState<Date | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Start from an empty draft every time the composer opens
+  useEffect(() => {
+    if (!open) return;
+    setQuestion('');
+    setOptions(['', '']);
+    setAllowsMultiple(false);
+    setIsAnonymous(false);
+    setClosesAt(null);
+  }, [open]);
+
+  const updateOption = (index: number, value: string) => {
+    setOptions(prev => prev.map((option, i) => (i === index ? value : option)));
+  };
+
+  const removeOption = (index: number) => {
+    setOptions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const filledOptions = options.map(option => option.trim()).filter(Boolean);
+  const hasDuplicates = new Set(filledOptions.map(option => option.toLowerCase())).size !== filledOptions.length;
+  const closesInPast = !!closesAt && closesAt.getTime() <= Date.now();
+  const canCreate = !!question.trim() && filledOptions.length >= MIN_OPTIONS && !hasDuplicates && !closesInPast && !isCreating;
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const created = await onCreate({
+      question: question.trim(),
+      options: filledOptions,
+      allows_multiple: allowsMultiple,
+      is_anonymous: isAnonymous,
+      closes_at: closesAt
+    });
+    setIsCreating(false);
+    if (created) onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="mx-4 bg-white border-gray-200">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-gray-900">Create poll</DialogTitle>
+          <DialogDescription>Ask a question and let the conversation vote.</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto">
+          <div className="space-y-4 px-1">
+            <div className="space-y-2">
+              <Label htmlFor="poll-question">Question</Label>
+              <Input
+                id="poll-question"
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                maxLength={MAX_QUESTION_LENGTH}
+                placeholder="Ask something..."
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Options</Label>
+              {options.map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={option}
+                    onChange={(e) => updateOption(index, e.target.value)}
+                    maxLength={MAX_OPTION_LENGTH}
+                    placeholder={`Option ${index + 1}`}
+                  />
+                  {options.length > MIN_OPTIONS && (
+                    <button type="button" onClick={() => removeOption(index)} title="Remove option" className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100">
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {hasDuplicates && <p className="text-xs text-red-600">Options must be different from each other</p>}
+              {options.length < MAX_OPTIONS && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setOptions(prev => [...prev, ''])}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add option
+                </Button>
+              )}
+            </div>
+            <div className="space-y-3 border-t border-gray-200 pt-4">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="poll-multiple">Allow multiple answers</Label>
+                <Switch id="poll-multiple" checked={allowsMultiple} onCheckedChange={setAllowsMultiple} />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="poll-anonymous">Anonymous voting</Label>
+                <Switch id="poll-anonymous" checked={isAnonymous} onCheckedChange={setIsAnonymous} />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="poll-closes">Close automatically</Label>
+                <Switch
+                  id="poll-closes"
+                  checked={!!closesAt}
+                  onCheckedChange={(checked) => setClosesAt(checked ? getDefaultScheduleTime() : null)}
+                />
+              </div>
+              {closesAt && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" size="sm" className={`w-full justify-start ${closesInPast ? 'text-red-600' : 'text-gray-700'}`}>
+                      <CalendarClock className="h-4 w-4 mr-2" />
+                      {formatScheduleTime(closesAt)}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0 bg-white border border-gray-200 shadow-lg">
+                    <ScheduleTimePicker value={closesAt} onChange={setClosesAt} />
+                  </PopoverContent>
+                </Popover>
+              )}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleCreate} disabled={!canCreate} className="bg-blue-500 hover:bg-blue-600 text-white">
+            {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BarChart3 className="h-4 w-4 mr-2" />}
+            Send poll
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
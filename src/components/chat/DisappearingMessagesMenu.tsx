@@ -0,0 +1,65 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Timer } from 'lucide-react';
+
+interface DisappearingMessagesMenuProps {
+  // Seconds until new messages expire, null when disappearing messages are off
+  value: number | null;
+  onChange: (value: number | null) => void;
+  // Icon-only trigger for the mobile header
+  compact?: boolean;
+}
+
+// Must match the values allowed by conversations.message_ttl_seconds
+const TTL_OPTIONS: { value: number | null; label: string; shortLabel: string }[] = [
+  { value: null, label: 'Off', shortLabel: 'Off' },
+  { value: 24 * 60 * 60, label: '24 hours', shortLabel: '24h' },
+  { value: 7 * 24 * 60 * 60, label: '7 days', shortLabel: '7d' },
+  { value: 90 * 24 * 60 * 60, label: '90 days', shortLabel: '90d' },
+];
+
+const OFF = 'off';
+
+export const DisappearingMessagesMenu: React.FC<DisappearingMessagesMenuProps> = ({ value, onChange, compact }) => {
+  const current = TTL_OPTIONS.find(option => option.value === value) ?? TTL_OPTIONS[0];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {compact ? (
+          <Button variant="ghost" size="sm" title="Disappearing messages" className={`hover:bg-gray-100 hover:scale-110 transition-all duration-300 ${value ? 'text-blue-600' : 'text-gray-700'}`}>
+            <Timer className="h-5 w-5" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" title="Disappearing messages" className={`border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300 ${value ? 'text-blue-600' : 'text-gray-700'}`}>
+            <Timer className="h-4 w-4 mr-2" />{value ? current.shortLabel : 'Off'}
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56 bg-white border border-gray-200">
+        <DropdownMenuLabel>Disappearing messages</DropdownMenuLabel>
+        <p className="px-2 pb-2 text-xs text-gray-500">New messages are deleted for everyone after this time.</p>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={value ? String(value) : OFF}
+          onValueChange={(selected) => onChange(selected === OFF ? null : Number(selected))}
+        >
+          {TTL_OPTIONS.map(option => (
+            <DropdownMenuRadioItem key={option.label} value={option.value ? String(option.value) : OFF}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2 } from 'lucide-react';
+import type { Message } from '@/components/chat/types';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface EditHistoryDialogProps {
+  message: Message | null;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+export const EditHistoryDialog: React.FC<EditHistoryDialogProps> = ({ message, onClose }) => {
+  const [edits, setEdits] = useState<Tables<'message_edits'>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const messageId = message?.id;
+  const editedAt = message?.edited_at;
+
+  // Refetch when the message is edited again while the dialog is open
+  useEffect(() => {
+    if (!messageId) return;
+    let cancelled = false;
+    const fetchEdits = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('message_edits')
+          .select('*')
+          .eq('message_id', messageId)
+          .order('edited_at', { ascending: false });
+        if (error) throw error;
+        if (!cancelled) setEdits(data || []);
+      } catch (error) {
+        console.error('Error loading edit history:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    fetchEdits();
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId, editedAt]);
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="mx-4 bg-white border-gray-200">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-gray-900">Edit history</DialogTitle>
+          <DialogDescription>Every version of this message, newest first.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-96">
+          <div className="space-y-3 pr-2">
+            {message && (
+              <div className="rounded-lg border border-blue-200 bg-blue-50 p-3">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs font-bold uppercase tracking-wider text-blue-700">Current</span>
+                  {message.edited_at && <span className="text-xs text-gray-500">{formatTimestamp(message.edited_at)}</span>}
+                </div>
+                <p className="text-sm text-gray-900 break-words whitespace-pre-wrap">{message.content}</p>
+              </div>
+            )}
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            ) : (
+              edits.map((edit, index) => {
+                // Each row stores the content as it was before that edit, so the version's
+                // start time is the following edit (or the original send time for the oldest)
+                const versionTime = edits[index + 1]?.edited_at ?? message?.created_at;
+                return (
+                  <div key={edit.id} className="rounded-lg border border-gray-200 bg-white p-3">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs font-bold uppercase tracking-wider text-gray-500">
+                        {index === edits.length - 1 ? 'Original' : `Version ${edits.length - index}`}
+                      </span>
+                      {versionTime && <span className="text-xs text-gray-500">{formatTimestamp(versionTime)}</span>}
+                    </div>
+                    <p className="text-sm text-gray-700 break-words whitespace-pre-wrap">{edit.previous_content}</p>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Download, File, FileArchive, FileImage, FileSpreadsheet, FileText, FileVideo, Loader2 } from 'lucide-react';
+import { formatFileSize, getAttachmentKind, type AttachmentKind } from '@/lib/attachments';
+import { downloadStorageFile } from '@/lib/chatImages';
+import type { Attachment } from '@/components/chat/types';
+
+interface FileAttachmentCardProps {
+  attachment: Attachment;
+  variant: 'own' | 'other';
+  // Still in the outbox, so there is nothing to download yet
+  pending?: boolean;
+  // Fraction uploaded while the message is being delivered
+  progress?: number;
+}
+
+const KIND_ICONS: Record<AttachmentKind, React.ElementType> = {
+  image: FileImage,
+  media: FileVideo,
+  archive: FileArchive,
+  document: FileText,
+  spreadsheet: FileSpreadsheet,
+  text: FileText,
+  other: File,
+};
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 && dot < fileName.length - 1 ? fileName.slice(dot + 1).toUpperCase() : null;
+};
+
+export const FileAttachmentCard: React.FC<FileAttachmentCardProps> = ({ attachment, variant, pending, progress }) => {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const Icon = KIND_ICONS[getAttachmentKind(attachment.mime_type)];
+  const extension = getExtension(attachment.file_name);
+  const isOwn = variant === 'own';
+
+  // Signed with the original name, so the browser saves it under that name
+  const download = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadStorageFile('chat-files', attachment.storage_path, attachment.file_name);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className={`flex min-w-[220px] max-w-xs items-center gap-3 rounded-xl p-2 ${isOwn ? 'bg-white/15' : 'bg-white border border-gray-200'}`}>
+      <div className={`flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-lg ${isOwn ? 'bg-white/20' : 'bg-blue-50 text-blue-600'}`}>
+        <Icon className="h-5 w-5" />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-semibold" title={attachment.file_name}>{attachment.file_name}</p>
+        <p className={`text-xs ${isOwn ? 'text-blue-100' : 'text-gray-500'}`}>
+          {progress !== undefined && `${formatFileSize(Math.round(attachment.size_bytes * progress))} of `}
+          {formatFileSize(attachment.size_bytes)}
+          {extension && ` · ${extension}`}
+        </p>
+        {progress !== undefined && (
+          <div className={`mt-1 h-1 overflow-hidden rounded-full ${isOwn ? 'bg-white/30' : 'bg-gray-200'}`}>
+            <div className={`h-full transition-all ${isOwn ? 'bg-white' : 'bg-blue-500'}`} style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={download}
+        disabled={pending || isDownloading || !attachment.storage_path}
+        title="Download"
+        className={`flex-shrink-0 rounded-full p-2 transition-colors disabled:opacity-50 ${isOwn ? 'hover:bg-white/20' : 'text-gray-600 hover:bg-gray-100'}`}
+      >
+        {isDownloading || pending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+      </button>
+    </div>
+  );
+};
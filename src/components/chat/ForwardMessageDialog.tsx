@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Forward, Loader2, Search, User, Users } from 'lucide-react';
+import type { Conversation, Message } from '@/components/chat/types';
+
+interface ForwardMessageDialogProps {
+  message: Message | null;
+  conversations: Conversation[];
+  currentUserId: string;
+  getConversationName: (conversation: Conversation) => string;
+  // Resolves to false when forwarding failed, keeping the selection
+  onForward: (conversationIds: string[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Mirrors the limit in public.forward_message()
+const MAX_TARGETS = 20;
+
+export const ForwardMessageDialog: React.FC<ForwardMessageDialogProps> = ({
+  message,
+  conversations,
+  currentUserId,
+  getConversationName,
+  onForward,
+  onClose
+}) => {
+  const [query, setQuery] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isForwarding, setIsForwarding] = useState(false);
+
+  // Start fresh for every message
+  useEffect(() => {
+    setQuery('');
+    setSelectedIds(new Set());
+  }, [message?.id]);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const matches = conversations.filter(c => !normalizedQuery || getConversationName(c).toLowerCase().includes(normalizedQuery));
+
+  const toggle = (conversationId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(conversationId)) next.delete(conversationId);
+      else if (next.size < MAX_TARGETS) next.add(conversationId);
+      return next;
+    });
+  };
+
+  const handleForward = async () => {
+    setIsForwarding(true);
+    const forwarded = await onForward([...selectedIds]);
+    setIsForwarding(false);
+    if (forwarded) onClose();
+  };
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="mx-4 bg-white border-gray-200">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-gray-900">Forward message</DialogTitle>
+          <DialogDescription className="line-clamp-2">
+            {message?.message_type === 'image' ? '📷 Photo' : message?.content}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search conversations..." className="pl-9" />
+        </div>
+        <ScrollArea className="h-72">
+          <div className="space-y-1 pr-2">
+            {matches.length === 0 && <p className="text-center text-sm text-gray-500 py-8">No conversations found</p>}
+            {matches.map(conversation => {
+              const otherParticipant = conversation.participants?.find(p => p.user_id !== currentUserId);
+              return (
+                <label
+                  key={conversation.id}
+                  className="flex items-center gap-3 rounded-lg p-2 cursor-pointer hover:bg-gray-50 transition-colors"
+                >
+                  <Checkbox
+                    checked={selectedIds.has(conversation.id)}
+                    onCheckedChange={() => toggle(conversation.id)}
+                    disabled={!selectedIds.has(conversation.id) && selectedIds.size >= MAX_TARGETS}
+                  />
+                  <Avatar className="h-9 w-9 border border-gray-200">
+                    {!conversation.is_group && <AvatarImage src={otherParticipant?.avatar_url} />}
+                    <AvatarFallback className="bg-gray-100 text-gray-600">
+                      {conversation.is_group ? <Users className="h-4 w-4" /> : <User className="h-4 w-4" />}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="text-sm font-medium text-gray-900 truncate">{getConversationName(conversation)}</span>
+                </label>
+              );
+            })}
+          </div>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleForward} disabled={selectedIds.size === 0 || isForwarding} className="bg-blue-500 hover:bg-blue-600 text-white">
+            {isForwarding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Forward className="h-4 w-4 mr-2" />}
+            {selectedIds.size > 1 ? `Forward to ${selectedIds.size} chats` : 'Forward'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
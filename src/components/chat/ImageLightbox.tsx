@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious, type CarouselApi } from '@/components/ui/carousel';
+import { Download, Forward, Loader2, LocateFixed, ZoomIn, ZoomOut } from 'lucide-react';
+import { downloadStorageFile, getSignedStorageUrl } from '@/lib/chatImages';
+import type { LightboxImage } from '@/components/chat/types';
+
+interface ImageLightboxProps {
+  // Every photo of the loaded conversation, oldest first
+  images: LightboxImage[];
+  // Photo to open at, or null while the lightbox is closed
+  openImageId: string | null;
+  onClose: () => void;
+  onForward: (messageId: string) => void;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const ZOOM_STEP = 1.25;
+// Photos signed ahead of the current one in each direction, so swiping doesn't wait
+const PRELOAD_RANGE = 1;
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const iconButtonClass = 'rounded-full p-2 text-white/80 hover:bg-white/10 hover:text-white disabled:opacity-40';
+
+export const ImageLightbox: React.FC<ImageLightboxProps> = ({
+  images,
+  openImageId,
+  onClose,
+  onForward,
+  onJumpToMessage
+}) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [openedFor, setOpenedFor] = useState<string | null>(null);
+  const [startIndex, setStartIndex] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<{ distance: number; scale: number } | null>(null);
+  const panRef = useRef<Point | null>(null);
+  const isZoomedRef = useRef(false);
+
+  // The carousel is mounted with the dialog and keeps its own position afterwards, so the
+  // start index is only worked out when the lightbox opens
+  if (openImageId !== openedFor) {
+    setOpenedFor(openImageId);
+    if (openImageId !== null) {
+      const index = Math.max(0, images.findIndex(image => image.id === openImageId));
+      setStartIndex(index);
+      setCurrentIndex(index);
+      setTransform(IDENTITY);
+    }
+  }
+
+  useEffect(() => {
+    isZoomedRef.current = transform.scale > MIN_SCALE;
+  }, [transform.scale]);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => {
+      setCurrentIndex(api.selectedScrollSnap());
+      setTransform(IDENTITY);
+    };
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  // Stored photos are private; sign the current one and its neighbours
+  useEffect(() => {
+    if (openImageId === null) return;
+    images.slice(Math.max(0, currentIndex - PRELOAD_RANGE), currentIndex + PRELOAD_RANGE + 1).forEach(image => {
+      if (image.preview_url || !image.storage_path) return;
+      getSignedStorageUrl(image.bucket, image.storage_path)
+        .then(url => setUrls(prev => (prev[image.id] === url ? prev : { ...prev, [image.id]: url })))
+        .catch(error => console.error('Error loading image:', error));
+    });
+  }, [openImageId, currentIndex, images]);
+
+  // Swiping would fight panning a zoomed photo and pinching with two fingers
+  const watchDrag = useCallback(
+    (_: unknown, event: MouseEvent | TouchEvent) => !isZoomedRef.current && !('touches' in event && event.touches.length > 1),
+    []
+  );
+
+  // Keeps a zoomed photo from being dragged out of view
+  const constrain = ({ scale, x, y }: Transform): Transform => {
+    const stage = stageRef.current;
+    if (scale <= MIN_SCALE || !stage) return IDENTITY;
+    const maxX = (stage.clientWidth * (scale - 1)) / 2;
+    const maxY = (stage.clientHeight * (scale - 1)) / 2;
+    return { scale, x: Math.min(maxX, Math.max(-maxX, x)), y: Math.min(maxY, Math.max(-maxY, y)) };
+  };
+
+  const zoomBy = (factor: number) => setTransform(prev => constrain({ ...prev, scale: clampScale(prev.scale * factor) }));
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points = [...pointersRef.current.values()];
+    if (points.length === 2) {
+      pinchRef.current = { distance: distance(points[0], points[1]), scale: transform.scale };
+      panRef.current = null;
+    } else if (points.length === 1 && transform.scale > MIN_SCALE) {
+      panRef.current = { x: e.clientX - transform.x, y: e.clientY - transform.y };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points = [...pointersRef.current.values()];
+    const pinch = pinchRef.current;
+    const pan = panRef.current;
+    if (points.length === 2 && pinch) {
+      const scale = clampScale((pinch.scale * distance(points[0], points[1])) / pinch.distance);
+      setTransform(prev => constrain({ ...prev, scale }));
+    } else if (pan) {
+      setTransform(prev => constrain({ ...prev, x: e.clientX - pan.x, y: e.clientY - pan.y }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) pinchRef.current = null;
+    // Lifting one finger of a pinch carries on as a pan with the other
+    const [remaining] = [...pointersRef.current.values()];
+    panRef.current = remaining && transform.scale > MIN_SCALE
+      ? { x: remaining.x - transform.x, y: remaining.y - transform.y }
+      : null;
+  };
+
+  const current = images[currentIndex];
+
+  const download = async () => {
+    if (!current) return;
+    setIsDownloading(true);
+    try {
+      if (current.storage_path) {
+        await downloadStorageFile(current.bucket, current.storage_path, current.file_name);
+      } else if (current.preview_url) {
+        const link = document.createElement('a');
+        link.href = current.preview_url;
+        link.download = current.file_name;
+        link.click();
+      }
+    } catch (error) {
+      console.error('Error downloading image:', error);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={openImageId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex h-[100dvh] max-w-none w-screen flex-col gap-0 border-none bg-black/95 p-0 text-white sm:rounded-none">
+        <DialogTitle className="sr-only">Photo</DialogTitle>
+        <div className="flex items-center gap-3 px-4 py-3 pr-14">
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-semibold">
+              {current?.sender_name || 'Photo'}
+              <span className="ml-2 font-normal text-white/60">{currentIndex + 1} / {images.length}</span>
+            </p>
+            {current && <p className="truncate text-xs text-white/60">{formatTimestamp(current.created_at)}</p>}
+          </div>
+          <button type="button" onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={transform.scale <= MIN_SCALE} title="Zoom out" className={iconButtonClass}>
+            <ZoomOut className="h-5 w-5" />
+          </button>
+          <button type="button" onClick={() => zoomBy(ZOOM_STEP)} disabled={transform.scale >= MAX_SCALE} title="Zoom in" className={iconButtonClass}>
+            <ZoomIn className="h-5 w-5" />
+          </button>
+          <button type="button" onClick={download} disabled={!current || isDownloading} title="Download" className={iconButtonClass}>
+            {isDownloading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Download className="h-5 w-5" />}
+          </button>
+          {current?.can_forward && (
+            <button type="button" onClick={() => onForward(current.message_id)} title="Forward" className={iconButtonClass}>
+              <Forward className="h-5 w-5" />
+            </button>
+          )}
+          {current && (
+            <button type="button" onClick={() => onJumpToMessage(current.message_id)} title="Show in chat" className={iconButtonClass}>
+              <LocateFixed className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+        <Carousel ref={stageRef} setApi={setApi} opts={{ startIndex, watchDrag }} className="relative min-h-0 flex-1">
+          <CarouselContent>
+            {images.map((image, index) => {
+              const url = image.preview_url ?? urls[image.id];
+              const isCurrent = index === currentIndex;
+              return (
+                <CarouselItem key={image.id} className="h-[calc(100dvh-4rem)]">
+                  <div
+                    className="flex h-full w-full items-center justify-center overflow-hidden touch-none"
+                    onPointerDown={isCurrent ? handlePointerDown : undefined}
+                    onPointerMove={isCurrent ? handlePointerMove : undefined}
+                    onPointerUp={isCurrent ? handlePointerUp : undefined}
+                    onPointerCancel={isCurrent ? handlePointerUp : undefined}
+                    onWheel={isCurrent ? (e) => zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP) : undefined}
+                    onDoubleClick={isCurrent ? () => setTransform(prev => (prev.scale > MIN_SCALE ? IDENTITY : constrain({ ...IDENTITY, scale: DOUBLE_TAP_SCALE }))) : undefined}
+                  >
+                    {url ? (
+                      <img
+                        src={url}
+                        alt={image.file_name}
+                        draggable={false}
+                        className={`max-h-full max-w-full select-none object-contain ${isCurrent && transform.scale > MIN_SCALE ? 'cursor-grab' : ''}`}
+                        style={isCurrent ? { transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` } : undefined}
+                      />
+                    ) : (
+                      <Loader2 className="h-8 w-8 animate-spin text-white/60" />
+                    )}
+                  </div>
+                </CarouselItem>
+              );
+            })}
+          </CarouselContent>
+          {images.length > 1 && (
+            <>
+              <CarouselPrevious className="left-4 hidden border-white/30 bg-black/50 text-white hover:bg-black/70 hover:text-white sm:flex" />
+              <CarouselNext className="right-4 hidden border-white/30 bg-black/50 text-white hover:bg-black/70 hover:text-white sm:flex" />
+            </>
+          )}
+        </Carousel>
+      </DialogContent>
+    </Dialog>
+  );
+};
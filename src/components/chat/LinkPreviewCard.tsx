@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { X } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+
+type LinkPreview = Tables<'link_previews'>;
+
+interface LinkPreviewCardProps {
+  url: string;
+  align: 'start' | 'end';
+  // Only passed for the sender's own messages
+  onRemove?: () => void;
+}
+
+// One request per URL per session, shared by every bubble that shows the same link
+const previewRequests = new Map<string, Promise<LinkPreview | null>>();
+
+const loadPreview = (url: string) => {
+  let request = previewRequests.get(url);
+  if (!request) {
+    request = supabase.functions
+      .invoke<{ preview: LinkPreview | null }>('unfurl', { body: { url } })
+      .then(({ data, error }) => {
+        if (error) throw error;
+        return data?.preview ?? null;
+      })
+      .catch(error => {
+        console.error('Error loading link preview:', error);
+        previewRequests.delete(url);
+        return null;
+      });
+    previewRequests.set(url, request);
+  }
+  return request;
+};
+
+export const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ url, align, onRemove }) => {
+  const [preview, setPreview] = useState<LinkPreview | null>(null);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    setImageFailed(false);
+    loadPreview(url).then(result => {
+      if (!cancelled) setPreview(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  if (!preview) return null;
+
+  return (
+    <div className={`relative mt-2 w-72 max-w-full ${align === 'end' ? 'self-end' : 'self-start'} group/preview`}>
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="block overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm hover:shadow-md transition-shadow"
+      >
+        {preview.image_url && !imageFailed && (
+          <img
+            src={preview.image_url}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            onError={() => setImageFailed(true)}
+            className="h-36 w-full object-cover bg-gray-100"
+          />
+        )}
+        <div className="p-3">
+          {preview.site_name && <p className="text-xs font-semibold uppercase tracking-wider text-gray-400 truncate">{preview.site_name}</p>}
+          <p className="text-sm font-semibold text-gray-900 line-clamp-2">{preview.title}</p>
+          {preview.description && <p className="mt-1 text-xs text-gray-600 line-clamp-3">{preview.description}</p>}
+        </div>
+      </a>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          title="Remove preview"
+          className="absolute top-2 right-2 rounded-full bg-black/60 p-1 text-white opacity-0 group-hover/preview:opacity-100 transition-opacity"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
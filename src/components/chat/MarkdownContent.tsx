@@ -0,0 +1,137 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, type BlockNode, type InlineNode } from '@/lib/markdown';
+import { highlightCode, type HighlightTokenType } from '@/lib/syntaxHighlight';
+
+interface MarkdownContentProps {
+  content: string;
+  variant: 'own' | 'other';
+  className?: string;
+  // Usernames the message actually mentions; other "@words" stay plain text
+  mentionedUsernames?: string[];
+  currentUsername?: string;
+}
+
+const VARIANT_STYLES = {
+  own: {
+    inlineCode: 'bg-blue-700/50',
+    blockquote: 'border-white/60',
+    link: 'text-white underline',
+    mention: 'bg-white/25 text-white',
+    selfMention: 'bg-yellow-300 text-gray-900',
+  },
+  other: {
+    inlineCode: 'bg-gray-200 text-gray-900',
+    blockquote: 'border-gray-400',
+    link: 'text-blue-600 underline',
+    mention: 'bg-blue-100 text-blue-700',
+    selfMention: 'bg-yellow-200 text-gray-900',
+  },
+};
+
+const TOKEN_STYLES: Record<HighlightTokenType, string> = {
+  plain: '',
+  keyword: 'text-purple-300',
+  string: 'text-green-300',
+  comment: 'text-gray-400 italic',
+  number: 'text-amber-300',
+};
+
+interface RenderContext {
+  styles: typeof VARIANT_STYLES['own'];
+  mentionedUsernames: Set<string>;
+  currentUsername?: string;
+}
+
+const renderInline = (nodes: InlineNode[], context: RenderContext): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return <code key={index} className={`rounded px-1 py-0.5 font-mono text-[0.9em] ${context.styles.inlineCode}`}>{node.text}</code>;
+      case 'strong':
+        return <strong key={index} className="font-bold">{renderInline(node.children, context)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, context)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children, context)}</s>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className={`break-all ${context.styles.link}`}>
+            {node.text}
+          </a>
+        );
+      case 'mention': {
+        const username = node.username.toLowerCase();
+        if (!context.mentionedUsernames.has(username)) return <React.Fragment key={index}>@{node.username}</React.Fragment>;
+        const isSelf = username === context.currentUsername?.toLowerCase();
+        return (
+          <span key={index} className={`rounded-md px-1 font-semibold ${isSelf ? context.styles.selfMention : context.styles.mention}`}>
+            @{node.username}
+          </span>
+        );
+      }
+    }
+  });
+
+const CodeBlock = ({ code, language }: { code: string; language: string | null }) => {
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+  return (
+    <div className="relative my-2 first:mt-0 last:mb-0">
+      {language && (
+        <span className="absolute right-2 top-1.5 text-[10px] font-semibold uppercase tracking-wider text-gray-500">{language}</span>
+      )}
+      <pre className="overflow-x-auto rounded-lg bg-gray-900 p-3 text-left text-sm leading-snug text-gray-100">
+        <code className="font-mono">
+          {tokens.map((token, index) => (
+            token.type === 'plain'
+              ? <React.Fragment key={index}>{token.text}</React.Fragment>
+              : <span key={index} className={TOKEN_STYLES[token.type]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const renderBlocks = (blocks: BlockNode[], context: RenderContext): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index} className="my-1 first:mt-0 last:mb-0">{renderInline(block.children, context)}</p>;
+      case 'code_block':
+        return <CodeBlock key={index} code={block.code} language={block.language} />;
+      case 'blockquote':
+        return (
+          <blockquote key={index} className={`my-1 border-l-4 pl-3 opacity-90 first:mt-0 last:mb-0 ${context.styles.blockquote}`}>
+            {renderBlocks(block.children, context)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, context)}</li>);
+        return block.ordered
+          ? <ol key={index} start={block.start} className="my-1 list-decimal pl-5 first:mt-0 last:mb-0">{items}</ol>
+          : <ul key={index} className="my-1 list-disc pl-5 first:mt-0 last:mb-0">{items}</ul>;
+      }
+    }
+  });
+
+// Renders message text as the chat Markdown subset. Everything goes through React
+// elements, so HTML in the source is escaped and only sanitized links are clickable.
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  variant,
+  className,
+  mentionedUsernames,
+  currentUsername
+}) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  const context: RenderContext = {
+    styles: VARIANT_STYLES[variant],
+    mentionedUsernames: new Set((mentionedUsernames || []).map(username => username.toLowerCase())),
+    currentUsername,
+  };
+  return <div className={`break-words ${className ?? ''}`}>{renderBlocks(blocks, context)}</div>;
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { User } from 'lucide-react';
+import type { Profile } from '@/components/chat/types';
+
+interface MentionSuggestionsProps {
+  candidates: Profile[];
+  activeIndex: number;
+  onSelect: (profile: Profile) => void;
+}
+
+// Autocomplete list shown above the composer while typing "@name"
+export const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({ candidates, activeIndex, onSelect }) => {
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-64 overflow-hidden rounded-xl border border-gray-200 bg-white shadow-lg z-20" role="listbox">
+      {candidates.map((profile, index) => (
+        <button
+          key={profile.user_id}
+          type="button"
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus in the composer so the caret position survives the click
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(profile)}
+          className={`flex w-full items-center gap-3 px-3 py-2 text-left transition-colors ${index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+        >
+          <Avatar className="h-7 w-7 border border-gray-200">
+            <AvatarImage src={profile.avatar_url} />
+            <AvatarFallback className="bg-gray-100 text-gray-600"><User className="h-3.5 w-3.5" /></AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-gray-900 truncate">{profile.display_name}</p>
+            <p className="text-xs text-gray-500 truncate">@{profile.username}</p>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+};
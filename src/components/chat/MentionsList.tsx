@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AtSign, Loader2, MessageSquare } from 'lucide-react';
+import type { Conversation, MessageTarget } from '@/components/chat/types';
+import type { Tables } from '@/integrations/supabase/types';
+
+type MentionRow = Pick<Tables<'messages'>, 'id' | 'conversation_id' | 'thread_root_id' | 'sender_id' | 'content' | 'created_at'>;
+
+interface MentionsListProps {
+  currentUserId: string;
+  conversations: Conversation[];
+  getConversationName: (conversation: Conversation) => string;
+  onSelectMessage: (target: MessageTarget) => void;
+}
+
+const MENTIONS_LIMIT = 50;
+
+// Sidebar view listing the latest messages that @mention the current user
+export const MentionsList: React.FC<MentionsListProps> = ({
+  currentUserId,
+  conversations,
+  getConversationName,
+  onSelectMessage
+}) => {
+  const [mentions, setMentions] = useState<MentionRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchMentions = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('id, conversation_id, thread_root_id, sender_id, content, created_at')
+          .contains('mentions', [currentUserId])
+          .is('deleted_at', null)
+          .order('created_at', { ascending: false })
+          .limit(MENTIONS_LIMIT);
+        if (error) throw error;
+        if (!cancelled) setMentions(data || []);
+      } catch (error) {
+        console.error('Error loading mentions:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    fetchMentions();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUserId]);
+
+  const getSenderName = (conversation: Conversation | undefined, senderId: string) =>
+    conversation?.participants?.find(p => p.user_id === senderId)?.display_name || 'Unknown User';
+
+  return (
+    <ScrollArea className="h-[calc(100vh-200px)]">
+      <div className="p-4 space-y-2">
+        {isLoading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        )}
+        {!isLoading && mentions.length === 0 && (
+          <div className="text-center py-8">
+            <AtSign className="h-12 w-12 mx-auto text-gray-400 mb-3" />
+            <p className="text-gray-500 font-medium">No mentions yet</p>
+            <p className="text-sm text-gray-400">Messages that @mention you will show up here</p>
+          </div>
+        )}
+        {mentions.map(mention => {
+          const conversation = conversations.find(c => c.id === mention.conversation_id);
+          return (
+            <button
+              key={mention.id}
+              onClick={() => onSelectMessage({ message_id: mention.id, conversation_id: mention.conversation_id, thread_root_id: mention.thread_root_id })}
+              className="w-full text-left bg-white border border-gray-200 rounded-lg p-3 hover:bg-gray-50 hover:border-gray-300 transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="text-sm font-semibold text-gray-900 truncate">
+                  {getSenderName(conversation, mention.sender_id)}
+                  <span className="font-normal text-gray-400"> in {conversation ? getConversationName(conversation) : 'a conversation'}</span>
+                </span>
+                <span className="text-xs text-gray-400 flex-shrink-0">{new Date(mention.created_at).toLocaleDateString()}</span>
+              </div>
+              <p className="text-sm text-gray-600 break-words line-clamp-3">{mention.content}</p>
+              {mention.thread_root_id && (
+                <p className="flex items-center gap-1 mt-1 text-xs text-blue-600"><MessageSquare className="h-3 w-3" /> In a thread</p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+};
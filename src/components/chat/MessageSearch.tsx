@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Loader2, MessageSquare } from 'lucide-react';
+import type { Conversation, MessageType, Profile } from '@/components/chat/types';
+import type { Database } from '@/integrations/supabase/types';
+
+export type MessageSearchResult = Database['public']['Functions']['search_messages']['Returns'][number];
+
+interface MessageSearchProps {
+  conversations: Conversation[];
+  getConversationName: (conversation: Conversation) => string;
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+const ALL = 'all';
+
+// System notices are not offered as a filter, and voice messages have no text to match
+const TYPE_LABELS: Record<Exclude<MessageType, 'system' | 'audio'>, string> = {
+  text: 'Text',
+  image: 'Image',
+  call_info: 'Call',
+  poll: 'Poll',
+  file: 'File',
+  album: 'Album',
+};
+
+// ts_headline wraps matches in « »; render them as highlights without injecting HTML
+const HighlightedSnippet = ({ snippet }: { snippet: string }) => (
+  <>
+    {snippet.split(/(«[^»]*»)/g).map((part, index) =>
+      part.startsWith('«') && part.endsWith('»') ? (
+        <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">{part.slice(1, -1)}</mark>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export const MessageSearch: React.FC<MessageSearchProps> = ({
+  conversations,
+  getConversationName,
+  onSelectResult
+}) => {
+  const [query, setQuery] = useState('');
+  const [senderFilter, setSenderFilter] = useState(ALL);
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const senders = conversations
+    .flatMap(c => c.participants || [])
+    .filter((p, index, all) => all.findIndex(other => other.user_id === p.user_id) === index);
+
+  useEffect(() => {
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        // to_date is exclusive, so move it to the start of the following day
+        const toDateExclusive = toDate ? new Date(new Date(toDate).getTime() + 24 * 60 * 60 * 1000).toISOString() : undefined;
+        const { data, error } = await supabase.rpc('search_messages', {
+          search_query: trimmedQuery.slice(0, 200),
+          sender_filter: senderFilter === ALL ? undefined : senderFilter,
+          type_filter: typeFilter === ALL ? undefined : typeFilter,
+          from_date: fromDate ? new Date(fromDate).toISOString() : undefined,
+          to_date: toDateExclusive,
+        });
+        if (error) throw error;
+        if (!cancelled) setResults(data || []);
+      } catch (error) {
+        console.error('Message search error:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, senderFilter, typeFilter, fromDate, toDate]);
+
+  const getSender = (userId: string): Profile | undefined => senders.find(p => p.user_id === userId);
+
+  const groupedResults = results.reduce((groups, result) => {
+    (groups[result.conversation_id] ||= []).push(result);
+    return groups;
+  }, {} as Record<string, MessageSearchResult[]>);
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-200px)]">
+      <div className="p-4 space-y-3 border-b border-gray-200">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search messages..."
+            className="pl-9 border-gray-300 focus:border-blue-500"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={senderFilter} onValueChange={setSenderFilter}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue placeholder="Sender" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Anyone</SelectItem>
+              {senders.map(sender => (
+                <SelectItem key={sender.user_id} value={sender.user_id}>{sender.display_name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue placeholder="Type" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              {(Object.keys(TYPE_LABELS) as (keyof typeof TYPE_LABELS)[]).map(type => (
+                <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} aria-label="From date" className="h-9 text-xs" />
+          <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} aria-label="To date" className="h-9 text-xs" />
+        </div>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          {isSearching && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          )}
+          {!isSearching && query.trim() && results.length === 0 && (
+            <div className="text-center py-8">
+              <Search className="h-12 w-12 mx-auto text-gray-400 mb-3" />
+              <p className="text-gray-500 font-medium">No messages found</p>
+              <p className="text-sm text-gray-400">Try different keywords or filters</p>
+            </div>
+          )}
+          {Object.entries(groupedResults).map(([conversationId, hits]) => {
+            const conversation = conversations.find(c => c.id === conversationId);
+            return (
+              <div key={conversationId} className="space-y-2">
+                <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500">
+                  {conversation ? getConversationName(conversation) : 'Conversation'}
+                </h4>
+                {hits.map(hit => (
+                  <button
+                    key={hit.message_id}
+                    onClick={() => onSelectResult(hit)}
+                    className="w-full text-left bg-white border border-gray-200 rounded-lg p-3 hover:bg-gray-50 hover:border-gray-300 transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="text-sm font-semibold text-gray-900 truncate">{getSender(hit.sender_id)?.display_name || 'Unknown User'}</span>
+                      <span className="text-xs text-gray-400 flex-shrink-0">{new Date(hit.created_at).toLocaleDateString()}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 break-words line-clamp-3"><HighlightedSnippet snippet={hit.snippet} /></p>
+                    {hit.thread_root_id && (
+                      <p className="flex items-center gap-1 mt-1 text-xs text-blue-600"><MessageSquare className="h-3 w-3" /> In a thread</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { File, Send, X } from 'lucide-react';
+import { formatFileSize } from '@/lib/attachments';
+import type { PendingAttachment } from '@/components/chat/types';
+
+interface PendingAttachmentsTrayProps {
+  attachments: PendingAttachment[];
+  onCaptionChange: (id: string, caption: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onSend: () => void;
+}
+
+const isImage = (attachment: PendingAttachment) => attachment.file.type.startsWith('image/');
+
+const RemoveButton = ({ onClick, label }: { onClick: () => void; label: string }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={`Remove ${label}`}
+    className="absolute -right-1.5 -top-1.5 flex h-5 w-5 items-center justify-center rounded-full bg-gray-800 text-white shadow hover:bg-gray-900"
+  >
+    <X className="h-3 w-3" />
+  </button>
+);
+
+// Laid out the way it will be sent: photos together as one message, every other file on its own
+export const PendingAttachmentsTray: React.FC<PendingAttachmentsTrayProps> = ({
+  attachments,
+  onCaptionChange,
+  onRemove,
+  onClear,
+  onSend
+}) => {
+  const images = attachments.filter(isImage);
+  const files = attachments.filter(a => !isImage(a));
+
+  const captionInput = (attachment: PendingAttachment, placeholder: string) => (
+    <Input
+      value={attachment.caption}
+      onChange={(e) => onCaptionChange(attachment.id, e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          onSend();
+        }
+      }}
+      placeholder={placeholder}
+      className="h-9 rounded-full bg-white text-sm"
+    />
+  );
+
+  return (
+    <div className="mb-3 rounded-2xl border border-gray-200 bg-gray-50 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <p className="text-sm font-semibold text-gray-700">
+          {attachments.length} {attachments.length === 1 ? 'attachment' : 'attachments'}
+        </p>
+        <div className="flex items-center gap-1">
+          <Button type="button" variant="ghost" size="sm" onClick={onClear} className="text-gray-600">
+            Discard
+          </Button>
+          <Button type="button" size="sm" onClick={onSend} className="rounded-full bg-blue-500 hover:bg-blue-600">
+            <Send className="mr-1 h-4 w-4" />Send
+          </Button>
+        </div>
+      </div>
+      <div className="max-h-64 space-y-3 overflow-y-auto pr-1 pt-1">
+        {images.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {images.map(image => (
+                <div key={image.id} className="relative h-16 w-16">
+                  <img src={image.preview_url ?? undefined} alt={image.file.name} title={image.file.name} className="h-16 w-16 rounded-lg object-cover" />
+                  <RemoveButton onClick={() => onRemove(image.id)} label={image.file.name} />
+                </div>
+              ))}
+            </div>
+            {/* An album carries a single caption, kept on its first photo */}
+            {captionInput(images[0], images.length > 1 ? 'Add a caption to the album...' : 'Add a caption...')}
+          </div>
+        )}
+        {files.map(attachment => (
+          <div key={attachment.id} className="space-y-2">
+            <div className="relative flex items-center gap-3 rounded-xl border border-gray-200 bg-white p-2 pr-4">
+              <div className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-lg bg-blue-50 text-blue-600">
+                <File className="h-4 w-4" />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-semibold text-gray-800" title={attachment.file.name}>{attachment.file.name}</p>
+                <p className="text-xs text-gray-500">{formatFileSize(attachment.file.size)}</p>
+              </div>
+              <RemoveButton onClick={() => onRemove(attachment.id)} label={attachment.file.name} />
+            </div>
+            {captionInput(attachment, 'Add a caption...')}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { List, Pin } from 'lucide-react';
+import type { PinnedMessage } from '@/components/chat/types';
+
+interface PinnedMessagesBannerProps {
+  // Newest pin first
+  pins: PinnedMessage[];
+  onJump: (pin: PinnedMessage) => void;
+  onOpenList: () => void;
+}
+
+// Strip under the conversation header; each click jumps to the shown pin and moves on to the next older one
+export const PinnedMessagesBanner: React.FC<PinnedMessagesBannerProps> = ({ pins, onJump, onOpenList }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    setActiveIndex(index => (index < pins.length ? index : 0));
+  }, [pins.length]);
+
+  if (pins.length === 0) return null;
+
+  const pin = pins[Math.min(activeIndex, pins.length - 1)];
+
+  const handleClick = () => {
+    onJump(pin);
+    setActiveIndex(index => (index + 1) % pins.length);
+  };
+
+  return (
+    <div className="flex items-center gap-3 border-b border-gray-200 bg-gray-50 px-4 py-2">
+      {pins.length > 1 && (
+        <div className="flex flex-col gap-0.5 self-stretch py-0.5">
+          {pins.map(p => (
+            <span key={p.id} className={`w-0.5 flex-1 rounded-full ${p.id === pin.id ? 'bg-blue-600' : 'bg-gray-300'}`} />
+          ))}
+        </div>
+      )}
+      <button onClick={handleClick} className="flex min-w-0 flex-1 items-center gap-2 text-left">
+        <Pin className="h-4 w-4 flex-shrink-0 text-blue-600" />
+        <div className="min-w-0">
+          <p className="text-xs font-semibold text-blue-600">
+            {pins.length > 1 ? `Pinned message ${pins.indexOf(pin) + 1} of ${pins.length}` : 'Pinned message'}
+          </p>
+          <p className="text-sm text-gray-700 truncate">{pin.preview}</p>
+        </div>
+      </button>
+      <button onClick={onOpenList} title="All pinned messages" className="rounded-full p-1.5 text-gray-500 hover:bg-gray-200 transition-colors">
+        <List className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Pin, PinOff } from 'lucide-react';
+import type { PinnedMessage } from '@/components/chat/types';
+
+interface PinnedMessagesDialogProps {
+  open: boolean;
+  pins: PinnedMessage[];
+  getUserName: (userId: string) => string;
+  // Only passed when the current user may unpin in this conversation
+  onUnpin?: (pin: PinnedMessage) => void;
+  onJump: (pin: PinnedMessage) => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+export const PinnedMessagesDialog: React.FC<PinnedMessagesDialogProps> = ({
+  open,
+  pins,
+  getUserName,
+  onUnpin,
+  onJump,
+  onClose
+}) => (
+  <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+    <DialogContent className="mx-4 bg-white border-gray-200">
+      <DialogHeader>
+        <DialogTitle className="text-xl font-bold text-gray-900">Pinned messages</DialogTitle>
+        <DialogDescription>Select a message to jump to it in the conversation.</DialogDescription>
+      </DialogHeader>
+      <ScrollArea className="max-h-96">
+        <div className="space-y-2 pr-2">
+          {pins.length === 0 && (
+            <div className="text-center py-8">
+              <Pin className="h-10 w-10 mx-auto text-gray-400 mb-3" />
+              <p className="text-gray-500 font-medium">No pinned messages</p>
+            </div>
+          )}
+          {pins.map(pin => (
+            <div key={pin.id} className="flex items-start gap-2 rounded-lg border border-gray-200 bg-white p-3 hover:bg-gray-50 transition-colors">
+              <button onClick={() => onJump(pin)} className="min-w-0 flex-1 text-left">
+                <p className="text-sm font-semibold text-gray-900">{getUserName(pin.sender_id)}</p>
+                <p className="text-sm text-gray-600 break-words line-clamp-3">{pin.preview}</p>
+                <p className="mt-1 text-xs text-gray-400">Pinned by {getUserName(pin.pinned_by)} · {formatTimestamp(pin.pinned_at)}</p>
+              </button>
+              {onUnpin && (
+                <button onClick={() => onUnpin(pin)} title="Unpin" className="rounded-full p-1.5 text-gray-500 hover:bg-gray-200 transition-colors">
+                  <PinOff className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart3, Check, Loader2, Lock } from 'lucide-react';
+import { formatScheduleTime } from '@/lib/schedule';
+import type { Poll } from '@/components/chat/types';
+
+interface PollCardProps {
+  poll: Poll;
+  currentUserId: string;
+  // The creator may close the poll early
+  canClose: boolean;
+  variant: 'own' | 'other';
+  getUserName: (userId: string) => string;
+  // Replaces the current user's choice; resolves to false when the vote was rejected
+  onVote: (optionIds: string[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const isPollClosed = (poll: Poll) =>
+  !!poll.closed_at || (!!poll.closes_at && new Date(poll.closes_at).getTime() <= Date.now());
+
+// Poll bubble with live result bars; tapping an option votes, tapping it again takes the vote back
+export const PollCard: React.FC<PollCardProps> = ({
+  poll,
+  currentUserId,
+  canClose,
+  variant,
+  getUserName,
+  onVote,
+  onClose
+}) => {
+  const [isVoting, setIsVoting] = useState(false);
+  const [, setClosedTick] = useState(0);
+  const isClosed = isPollClosed(poll);
+
+  // Re-render when the closing time passes so the poll locks without a reload
+  useEffect(() => {
+    if (isClosed || !poll.closes_at) return;
+    const delay = new Date(poll.closes_at).getTime() - Date.now();
+    const timer = window.setTimeout(() => setClosedTick(tick => tick + 1), Math.min(delay + 100, 2147483647));
+    return () => window.clearTimeout(timer);
+  }, [isClosed, poll.closes_at]);
+
+  const myOptionIds = poll.votes.filter(v => v.user_id === currentUserId).map(v => v.option_id);
+  const hasVoted = myOptionIds.length > 0;
+  // Multiple-choice polls show the share of voters, single-choice the share of votes
+  const total = poll.allows_multiple ? poll.voter_count : poll.options.reduce((sum, o) => sum + o.vote_count, 0);
+  const showResults = hasVoted || isClosed;
+
+  const toggleOption = async (optionId: string) => {
+    if (isClosed || isVoting) return;
+    let next: string[];
+    if (myOptionIds.includes(optionId)) next = myOptionIds.filter(id => id !== optionId);
+    else next = poll.allows_multiple ? [...myOptionIds, optionId] : [optionId];
+    setIsVoting(true);
+    await onVote(next);
+    setIsVoting(false);
+  };
+
+  const isOwn = variant === 'own';
+  const mutedText = isOwn ? 'text-blue-100' : 'text-gray-500';
+
+  return (
+    <div className="min-w-[240px] space-y-3">
+      <div className="flex items-start gap-2">
+        <BarChart3 className="h-5 w-5 flex-shrink-0 mt-0.5" />
+        <p className="text-base font-semibold leading-snug break-words">{poll.question}</p>
+      </div>
+      <p className={`text-xs ${mutedText}`}>
+        {poll.is_anonymous ? 'Anonymous' : 'Public'} · {poll.allows_multiple ? 'Select one or more' : 'Select one'}
+      </p>
+      <div className="space-y-2">
+        {poll.options.map(option => {
+          const isChosen = myOptionIds.includes(option.id);
+          const percent = total > 0 ? Math.round((option.vote_count / total) * 100) : 0;
+          const voters = poll.is_anonymous ? [] : poll.votes.filter(v => v.option_id === option.id).map(v => getUserName(v.user_id));
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => toggleOption(option.id)}
+              disabled={isClosed || isVoting}
+              className={`relative w-full overflow-hidden rounded-lg border text-left transition-colors disabled:cursor-default ${
+                isOwn ? 'border-white/30 hover:bg-white/10' : 'border-gray-200 hover:bg-gray-50'
+              } ${isChosen ? (isOwn ? 'border-white' : 'border-blue-500') : ''}`}
+            >
+              {showResults && (
+                <div
+                  className={`absolute inset-y-0 left-0 transition-all duration-500 ${isOwn ? 'bg-white/20' : 'bg-blue-100'}`}
+                  style={{ width: `${percent}%` }}
+                />
+              )}
+              <div className="relative flex items-center gap-2 px-3 py-2">
+                <span className={`flex h-4 w-4 flex-shrink-0 items-center justify-center border ${poll.allows_multiple ? 'rounded' : 'rounded-full'} ${
+                  isChosen ? (isOwn ? 'bg-white text-blue-600 border-white' : 'bg-blue-500 text-white border-blue-500') : (isOwn ? 'border-white/60' : 'border-gray-400')
+                }`}>
+                  {isChosen && <Check className="h-3 w-3" />}
+                </span>
+                <span className="flex-1 text-sm font-medium break-words">{option.label}</span>
+                {showResults && <span className="text-sm font-semibold">{percent}%</span>}
+              </div>
+              {showResults && voters.length > 0 && (
+                <p className={`relative px-3 pb-2 -mt-1 text-xs truncate ${mutedText}`} title={voters.join(', ')}>
+                  {voters.join(', ')}
+                </p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      <div className={`flex items-center justify-between gap-2 text-xs ${mutedText}`}>
+        <span className="flex items-center gap-1">
+          {isVoting && <Loader2 className="h-3 w-3 animate-spin" />}
+          {poll.voter_count === 1 ? '1 vote' : `${poll.voter_count} votes`}
+        </span>
+        {isClosed ? (
+          <span className="flex items-center gap-1 font-semibold"><Lock className="h-3 w-3" /> Closed</span>
+        ) : (
+          <span className="flex items-center gap-2">
+            {poll.closes_at && <span>Closes {formatScheduleTime(poll.closes_at)}</span>}
+            {canClose && (
+              <button type="button" onClick={onClose} className="font-semibold underline-offset-2 hover:underline">
+                Close poll
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
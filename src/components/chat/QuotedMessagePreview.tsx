@@ -0,0 +1,68 @@
+import React from 'react';
+import { Image, Mic, Paperclip, X } from 'lucide-react';
+import { ChatImage } from '@/components/chat/ChatImage';
+import type { Message } from '@/components/chat/types';
+
+interface QuotedMessagePreviewProps {
+  // null means the original has been deleted or hidden; undefined means it has not loaded yet
+  message: Message | null | undefined;
+  variant: 'own' | 'other' | 'composer';
+  onClick?: () => void;
+  onCancel?: () => void;
+}
+
+const VARIANT_STYLES = {
+  own: 'bg-blue-400/40 border-white/70 text-white',
+  other: 'bg-white/70 border-blue-400 text-gray-700',
+  composer: 'bg-gray-50 border-blue-500 text-gray-700',
+};
+
+const getSnippet = (message: Message) => {
+  if (message.message_type === 'image') return 'Photo';
+  if (message.message_type === 'album') return message.content || 'Album';
+  if (message.message_type === 'audio') return 'Voice message';
+  if (message.message_type === 'file') return message.content || message.attachments?.[0]?.file_name || 'File';
+  return message.content || '';
+};
+
+export const QuotedMessagePreview: React.FC<QuotedMessagePreviewProps> = ({
+  message,
+  variant,
+  onClick,
+  onCancel
+}) => {
+  const isDeleted = message === null || !!message?.deleted_at;
+
+  return (
+    <div
+      onClick={isDeleted ? undefined : onClick}
+      className={`flex items-start gap-2 rounded-lg border-l-4 px-3 py-2 text-sm ${VARIANT_STYLES[variant]} ${onClick && !isDeleted ? 'cursor-pointer hover:opacity-90' : ''}`}
+    >
+      <div className="flex-1 min-w-0">
+        {isDeleted ? (
+          <p className="italic opacity-70">Original message deleted</p>
+        ) : message ? (
+          <>
+            <p className="text-xs font-bold opacity-80">{message.sender_profile?.display_name}</p>
+            <p className="truncate flex items-center gap-1">
+              {(message.message_type === 'image' || message.message_type === 'album') && <Image className="h-3.5 w-3.5 flex-shrink-0" />}
+              {message.message_type === 'audio' && <Mic className="h-3.5 w-3.5 flex-shrink-0" />}
+              {message.message_type === 'file' && <Paperclip className="h-3.5 w-3.5 flex-shrink-0" />}
+              {getSnippet(message)}
+            </p>
+          </>
+        ) : (
+          <p className="italic opacity-70">Loading...</p>
+        )}
+      </div>
+      {message?.message_type === 'image' && message.image_url && (
+        <ChatImage imageUrl={message.image_url} alt="" placeholderClassName="h-10 w-10 rounded" className="h-10 w-10 flex-shrink-0 rounded object-cover" />
+      )}
+      {onCancel && (
+        <button type="button" onClick={onCancel} className="flex-shrink-0 rounded-full p-1 hover:bg-gray-200">
+          <X className="h-4 w-4 text-gray-500" />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { Profile, Reaction } from '@/components/chat/types';
+
+interface ReactionPillsProps {
+  reactions: Reaction[];
+  participants: Profile[];
+  currentUserId?: string;
+  align: 'start' | 'end';
+  onToggle: (emoji: string) => void;
+}
+
+const LONG_PRESS_MS = 500;
+
+export const ReactionPills: React.FC<ReactionPillsProps> = ({
+  reactions,
+  participants,
+  currentUserId,
+  align,
+  onToggle
+}) => {
+  const [openEmoji, setOpenEmoji] = useState<string | null>(null);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressFiredRef = useRef(false);
+
+  // Group by emoji, keeping the order in which each emoji was first used
+  const groups = reactions.reduce((acc, reaction) => {
+    (acc[reaction.emoji] ||= []).push(reaction.user_id);
+    return acc;
+  }, {} as Record<string, string[]>);
+
+  const getReactorNames = (userIds: string[]) =>
+    userIds
+      .map(id => (id === currentUserId ? 'You' : participants.find(p => p.user_id === id)?.display_name || 'Unknown User'))
+      .join(', ');
+
+  // Touch devices have no hover, so a long press reveals who reacted instead of toggling
+  const handleTouchStart = (emoji: string) => {
+    longPressFiredRef.current = false;
+    longPressTimerRef.current = setTimeout(() => {
+      longPressFiredRef.current = true;
+      setOpenEmoji(emoji);
+    }, LONG_PRESS_MS);
+  };
+
+  const handleTouchEnd = () => {
+    if (longPressTimerRef.current) clearTimeout(longPressTimerRef.current);
+  };
+
+  const handleClick = (emoji: string) => {
+    if (longPressFiredRef.current) {
+      longPressFiredRef.current = false;
+      return;
+    }
+    onToggle(emoji);
+  };
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1 ${align === 'end' ? 'justify-end' : 'justify-start'}`}>
+      {Object.entries(groups).map(([emoji, userIds]) => {
+        const reactedByMe = !!currentUserId && userIds.includes(currentUserId);
+        return (
+          <Tooltip key={emoji} open={openEmoji === emoji} onOpenChange={(open) => setOpenEmoji(open ? emoji : null)}>
+            <TooltipTrigger asChild>
+              <button
+                onClick={() => handleClick(emoji)}
+                onTouchStart={() => handleTouchStart(emoji)}
+                onTouchEnd={handleTouchEnd}
+                onTouchMove={handleTouchEnd}
+                onContextMenu={(e) => e.preventDefault()}
+                className={`border rounded-full px-2 py-0.5 text-sm shadow-sm hover:scale-105 transition-transform flex items-center gap-1 select-none ${reactedByMe ? 'bg-blue-50 border-blue-300' : 'bg-white border-gray-200'}`}
+              >
+                <span>{emoji}</span>
+                <span className="text-xs text-gray-600">{userIds.length}</span>
+              </button>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs text-xs">
+              {getReactorNames(userIds)}
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarClock } from 'lucide-react';
+import { ScheduleTimePicker } from '@/components/chat/ScheduleTimePicker';
+import { getDefaultScheduleTime, formatScheduleTime } from '@/lib/schedule';
+
+interface ScheduleSendButtonProps {
+  disabled: boolean;
+  // Resolves to false when the message could not be scheduled, keeping the picker open
+  onSchedule: (scheduledFor: Date) => Promise<boolean>;
+}
+
+export const ScheduleSendButton: React.FC<ScheduleSendButtonProps> = ({ disabled, onSchedule }) => {
+  const [open, setOpen] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState(getDefaultScheduleTime);
+  const [isScheduling, setIsScheduling] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setScheduledFor(getDefaultScheduleTime());
+    setOpen(isOpen);
+  };
+
+  const handleSchedule = async () => {
+    setIsScheduling(true);
+    const scheduled = await onSchedule(scheduledFor);
+    setIsScheduling(false);
+    if (scheduled) setOpen(false);
+  };
+
+  const isInPast = scheduledFor.getTime() <= Date.now();
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          disabled={disabled}
+          title="Schedule send"
+          className="border border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300 text-gray-700 rounded-full h-12 w-12 shadow-sm hover:shadow-md disabled:opacity-50"
+        >
+          <CalendarClock className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-0 bg-white border border-gray-200 shadow-lg">
+        <ScheduleTimePicker value={scheduledFor} onChange={setScheduledFor} />
+        <div className="border-t border-gray-200 p-3">
+          <Button onClick={handleSchedule} disabled={isInPast || isScheduling} className="w-full bg-blue-500 hover:bg-blue-600 text-white">
+            {isInPast ? 'Pick a time in the future' : `Send ${formatScheduleTime(scheduledFor)}`}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { format, setHours, setMinutes, startOfDay } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Clock } from 'lucide-react';
+
+interface ScheduleTimePickerProps {
+  value: Date;
+  onChange: (value: Date) => void;
+}
+
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Day from the calendar plus a time of day, both in the browser's timezone
+export const ScheduleTimePicker: React.FC<ScheduleTimePickerProps> = ({ value, onChange }) => {
+  const handleDaySelect = (day: Date | undefined) => {
+    if (!day) return;
+    onChange(setMinutes(setHours(day, value.getHours()), value.getMinutes()));
+  };
+
+  const handleTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const [hours, minutes] = e.target.value.split(':').map(Number);
+    if (Number.isNaN(hours) || Number.isNaN(minutes)) return;
+    onChange(setMinutes(setHours(value, hours), minutes));
+  };
+
+  return (
+    <div>
+      <Calendar
+        mode="single"
+        selected={value}
+        defaultMonth={value}
+        onSelect={handleDaySelect}
+        disabled={{ before: startOfDay(new Date()) }}
+        initialFocus
+      />
+      <div className="flex items-center gap-2 px-3 pb-3">
+        <Clock className="h-4 w-4 text-gray-500" />
+        <Input type="time" value={format(value, 'HH:mm')} onChange={handleTimeChange} className="h-9 w-32" />
+        <span className="text-xs text-gray-500 truncate">{timeZone}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarClock, Edit2, Trash2 } from 'lucide-react';
+import { ScheduleTimePicker } from '@/components/chat/ScheduleTimePicker';
+import { formatScheduleTime } from '@/lib/schedule';
+import type { Tables } from '@/integrations/supabase/types';
+
+type ScheduledMessage = Tables<'scheduled_messages'>;
+
+interface ScheduledMessagesDialogProps {
+  open: boolean;
+  scheduledMessages: ScheduledMessage[];
+  // Resolve to false when the change was rejected, keeping the editor open
+  onUpdate: (id: string, content: string, scheduledFor: Date) => Promise<boolean>;
+  onCancel: (id: string) => void;
+  onClose: () => void;
+}
+
+interface ScheduledMessageEditorProps {
+  message: ScheduledMessage;
+  onSave: (content: string, scheduledFor: Date) => Promise<void>;
+  onDiscard: () => void;
+}
+
+const ScheduledMessageEditor: React.FC<ScheduledMessageEditorProps> = ({ message, onSave, onDiscard }) => {
+  const [content, setContent] = useState(message.content);
+  const [scheduledFor, setScheduledFor] = useState(() => new Date(message.scheduled_for));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isInPast = scheduledFor.getTime() <= Date.now();
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    await onSave(content.trim(), scheduledFor);
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea value={content} onChange={(e) => setContent(e.target.value)} rows={3} className="resize-none text-sm" />
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className={`w-full justify-start ${isInPast ? 'text-red-600' : 'text-gray-700'}`}>
+            <CalendarClock className="h-4 w-4 mr-2" />
+            {formatScheduleTime(scheduledFor)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0 bg-white border border-gray-200 shadow-lg">
+          <ScheduleTimePicker value={scheduledFor} onChange={setScheduledFor} />
+        </PopoverContent>
+      </Popover>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onDiscard}>Cancel</Button>
+        <Button size="sm" onClick={handleSave} disabled={!content.trim() || isInPast || isSaving} className="bg-blue-500 hover:bg-blue-600 text-white">
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// My messages in this conversation that are still waiting for their delivery time
+export const ScheduledMessagesDialog: React.FC<ScheduledMessagesDialogProps> = ({
+  open,
+  scheduledMessages,
+  onUpdate,
+  onCancel,
+  onClose
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const handleSave = async (id: string, content: string, scheduledFor: Date) => {
+    if (await onUpdate(id, content, scheduledFor)) setEditingId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) { setEditingId(null); onClose(); } }}>
+      <DialogContent className="mx-4 bg-white border-gray-200">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-gray-900">Scheduled messages</DialogTitle>
+          <DialogDescription>Only you can see these until they are sent.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-96">
+          <div className="space-y-2 pr-2">
+            {scheduledMessages.length === 0 && (
+              <div className="text-center py-8">
+                <CalendarClock className="h-10 w-10 mx-auto text-gray-400 mb-3" />
+                <p className="text-gray-500 font-medium">No scheduled messages</p>
+              </div>
+            )}
+            {scheduledMessages.map(message => (
+              <div key={message.id} className="rounded-lg border border-gray-200 bg-white p-3">
+                {editingId === message.id ? (
+                  <ScheduledMessageEditor
+                    message={message}
+                    onSave={(content, scheduledFor) => handleSave(message.id, content, scheduledFor)}
+                    onDiscard={() => setEditingId(null)}
+                  />
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <div className="min-w-0 flex-1">
+                      <p className="flex items-center gap-1 text-xs font-semibold text-blue-600">
+                        <CalendarClock className="h-3.5 w-3.5" />
+                        {formatScheduleTime(message.scheduled_for)}
+                      </p>
+                      <p className="mt-1 text-sm text-gray-700 break-words whitespace-pre-wrap line-clamp-4">{message.content}</p>
+                    </div>
+                    <button onClick={() => setEditingId(message.id)} title="Edit" className="rounded-full p-1.5 text-gray-500 hover:bg-gray-200 transition-colors">
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => onCancel(message.id)} title="Cancel scheduled message" className="rounded-full p-1.5 text-gray-500 hover:bg-gray-200 transition-colors">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Check, CheckCheck, User } from 'lucide-react';
+import type { Profile } from '@/components/chat/types';
+
+interface SeenIndicatorProps {
+  readers: Profile[];
+  isGroup: boolean;
+}
+
+const MAX_AVATARS = 5;
+
+export const SeenIndicator: React.FC<SeenIndicatorProps> = ({ readers, isGroup }) => {
+  if (readers.length === 0) {
+    return (
+      <span className="flex items-center gap-1 text-xs text-gray-400">
+        <Check className="h-4 w-4" />
+        Sent
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1.5 text-xs text-blue-500">
+      <div className="flex -space-x-1.5">
+        {readers.slice(0, MAX_AVATARS).map(reader => (
+          <Avatar key={reader.user_id} className="h-4 w-4 border border-white">
+            <AvatarImage src={reader.avatar_url} />
+            <AvatarFallback className="bg-gray-100 text-gray-600"><User className="h-2.5 w-2.5" /></AvatarFallback>
+          </Avatar>
+        ))}
+      </div>
+      <CheckCheck className="h-4 w-4" />
+      {isGroup ? `Seen by ${readers.map(r => r.display_name).join(', ')}` : 'Seen'}
+    </span>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, MessageSquare, Star } from 'lucide-react';
+import type { Conversation, MessageTarget } from '@/components/chat/types';
+import type { Tables } from '@/integrations/supabase/types';
+
+type StarredMessage = Pick<Tables<'messages'>, 'id' | 'conversation_id' | 'thread_root_id' | 'sender_id' | 'content' | 'message_type' | 'created_at'>;
+
+interface StarredMessagesListProps {
+  currentUserId: string;
+  conversations: Conversation[];
+  getConversationName: (conversation: Conversation) => string;
+  onSelectMessage: (target: MessageTarget) => void;
+  onUnstar: (messageId: string) => Promise<boolean>;
+}
+
+const STARRED_LIMIT = 100;
+
+// Sidebar view listing the current user's starred messages, most recently starred first
+export const StarredMessagesList: React.FC<StarredMessagesListProps> = ({
+  currentUserId,
+  conversations,
+  getConversationName,
+  onSelectMessage,
+  onUnstar
+}) => {
+  const [starred, setStarred] = useState<StarredMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchStarred = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('starred_messages')
+          .select('message:messages(id, conversation_id, thread_root_id, sender_id, content, message_type, created_at)')
+          .eq('user_id', currentUserId)
+          .order('starred_at', { ascending: false })
+          .limit(STARRED_LIMIT);
+        if (error) throw error;
+        // Messages that have expired in the meantime come back empty
+        if (!cancelled) setStarred((data || []).map(row => row.message).filter((message): message is StarredMessage => !!message));
+      } catch (error) {
+        console.error('Error loading starred messages:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    fetchStarred();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUserId]);
+
+  const getSenderName = (conversation: Conversation | undefined, senderId: string) =>
+    conversation?.participants?.find(p => p.user_id === senderId)?.display_name || 'Unknown User';
+
+  const handleUnstar = async (messageId: string) => {
+    if (await onUnstar(messageId)) setStarred(prev => prev.filter(m => m.id !== messageId));
+  };
+
+  return (
+    <ScrollArea className="h-[calc(100vh-200px)]">
+      <div className="p-4 space-y-2">
+        {isLoading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        )}
+        {!isLoading && starred.length === 0 && (
+          <div className="text-center py-8">
+            <Star className="h-12 w-12 mx-auto text-gray-400 mb-3" />
+            <p className="text-gray-500 font-medium">No starred messages</p>
+            <p className="text-sm text-gray-400">Star a message to find it here later</p>
+          </div>
+        )}
+        {starred.map(message => {
+          const conversation = conversations.find(c => c.id === message.conversation_id);
+          return (
+            <div key={message.id} className="relative bg-white border border-gray-200 rounded-lg hover:bg-gray-50 hover:border-gray-300 transition-colors">
+              <button
+                onClick={() => onSelectMessage({ message_id: message.id, conversation_id: message.conversation_id, thread_root_id: message.thread_root_id })}
+                className="w-full text-left p-3 pr-10"
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="text-sm font-semibold text-gray-900 truncate">
+                    {getSenderName(conversation, message.sender_id)}
+                    <span className="font-normal text-gray-400"> in {conversation ? getConversationName(conversation) : 'a conversation'}</span>
+                  </span>
+                  <span className="text-xs text-gray-400 flex-shrink-0">{new Date(message.created_at).toLocaleDateString()}</span>
+                </div>
+                <p className="text-sm text-gray-600 break-words line-clamp-3">{message.message_type === 'image' ? '📷 Photo' : message.message_type === 'album' ? `📷 ${message.content || 'Album'}` : message.message_type === 'audio' ? '🎤 Voice message' : message.message_type === 'file' ? `📎 ${message.content || 'File'}` : message.content}</p>
+                {message.thread_root_id && (
+                  <p className="flex items-center gap-1 mt-1 text-xs text-blue-600"><MessageSquare className="h-3 w-3" /> In a thread</p>
+                )}
+              </button>
+              <button
+                onClick={() => handleUnstar(message.id)}
+                title="Unstar"
+                className="absolute top-3 right-3 rounded-full p-1 text-yellow-500 hover:bg-gray-200 transition-colors"
+              >
+                <Star className="h-4 w-4 fill-current" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Send, User, X, MessageSquare } from 'lucide-react';
+import { MarkdownContent } from '@/components/chat/MarkdownContent';
+import { ChatImage } from '@/components/chat/ChatImage';
+import type { Message } from '@/components/chat/types';
+
+interface ThreadPanelProps {
+  rootMessage: Message;
+  replies: Message[];
+  currentUserId?: string;
+  isLoading: boolean;
+  onSendReply: (content: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const ThreadMessage = ({ message, isOwnMessage }: { message: Message; isOwnMessage: boolean }) => (
+  <div className="flex items-start gap-3">
+    <Avatar className="h-8 w-8 flex-shrink-0 border-2 border-gray-200 shadow-sm">
+      <AvatarImage src={message.sender_profile?.avatar_url} />
+      <AvatarFallback className="bg-gray-100 text-gray-600"><User className="h-4 w-4" /></AvatarFallback>
+    </Avatar>
+    <div className="flex-1 min-w-0">
+      <div className="flex items-baseline gap-2">
+        <p className={`text-sm font-semibold truncate ${isOwnMessage ? 'text-blue-600' : 'text-gray-900'}`}>{message.sender_profile?.display_name}</p>
+        <p className="text-xs text-gray-400">{formatTime(message.created_at)}</p>
+      </div>
+      {message.deleted_at ? (
+        <p className="text-sm italic text-gray-400">This message was deleted</p>
+      ) : message.message_type === 'image' ? (
+        <ChatImage imageUrl={message.image_url!} alt="Shared" className="mt-1 max-w-full max-h-48 rounded-lg" />
+      ) : (
+        <MarkdownContent content={message.content || ''} variant="other" className="text-sm text-gray-800 leading-relaxed" />
+      )}
+    </div>
+  </div>
+);
+
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  rootMessage,
+  replies,
+  currentUserId,
+  isLoading,
+  onSendReply,
+  onClose
+}) => {
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim()) return;
+    setIsSending(true);
+    const sent = await onSendReply(reply.trim());
+    if (sent) setReply('');
+    setIsSending(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-white lg:static lg:z-auto lg:w-96 lg:border-l lg:border-gray-200">
+      <div className="flex items-center justify-between border-b border-gray-200 p-4">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-blue-500" />
+          <h3 className="font-semibold text-gray-900">Thread</h3>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="hover:bg-gray-100 text-gray-700">
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1 p-4">
+        <div className="space-y-4">
+          <ThreadMessage message={rootMessage} isOwnMessage={rootMessage.sender_id === currentUserId} />
+          <div className="flex items-center gap-3">
+            <span className="text-xs font-medium text-gray-500">
+              {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+            </span>
+            <div className="flex-1 border-t border-gray-200" />
+          </div>
+          {isLoading ? (
+            <p className="text-sm text-gray-400 text-center py-4">Loading replies...</p>
+          ) : (
+            replies.map(message => (
+              <ThreadMessage key={message.id} message={message} isOwnMessage={message.sender_id === currentUserId} />
+            ))
+          )}
+          <div ref={repliesEndRef} />
+        </div>
+      </ScrollArea>
+      <div className="p-4 border-t border-gray-200">
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <Input
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Reply in thread..."
+            disabled={isSending}
+            className="flex-1 border border-gray-300 focus:border-blue-500 rounded-full px-4"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={isSending || !reply.trim()}
+            className="bg-blue-500 hover:bg-blue-600 text-white rounded-full disabled:opacity-50"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
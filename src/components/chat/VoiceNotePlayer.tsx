@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2, Mic, Pause, Play } from 'lucide-react';
+import { WAVEFORM_BARS, formatAudioDuration } from '@/lib/audio';
+
+interface VoiceNotePlayerProps {
+  // Storage path in voice-notes; ignored while a local preview URL is given
+  path: string | null;
+  previewUrl?: string | null;
+  durationMs: number;
+  peaks: number[];
+  variant: 'own' | 'other';
+  // Shown as a dot for recipients who have not listened yet, as a blue mic for the sender
+  played: boolean;
+  onPlay?: () => void;
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+// Long enough to listen to a 15 minute note twice
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({
+  path,
+  previewUrl,
+  durationMs,
+  peaks,
+  variant,
+  played,
+  onPlay
+}) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [source, setSource] = useState<string | null>(previewUrl ?? null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [rateIndex, setRateIndex] = useState(0);
+
+  // The optimistic bubble is swapped for the stored message once the upload is done
+  useEffect(() => {
+    setSource(previewUrl ?? null);
+  }, [previewUrl, path]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = PLAYBACK_RATES[rateIndex];
+  }, [rateIndex, source]);
+
+  // Signed URLs are fetched on first play, so scrolling past voice notes downloads nothing
+  const loadSource = async () => {
+    if (source) return source;
+    if (!path) return null;
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.storage.from('voice-notes').createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+      if (error) throw error;
+      setSource(data.signedUrl);
+      return data.signedUrl;
+    } catch (error) {
+      console.error('Error loading voice message:', error);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const play = async (fromMs?: number) => {
+    const audio = audioRef.current;
+    const url = await loadSource();
+    if (!audio || !url) return;
+    if (audio.src !== url) audio.src = url;
+    audio.playbackRate = PLAYBACK_RATES[rateIndex];
+    if (fromMs !== undefined) audio.currentTime = fromMs / 1000;
+    try {
+      await audio.play();
+      onPlay?.();
+    } catch (error) {
+      console.error('Error playing voice message:', error);
+    }
+  };
+
+  const togglePlayback = () => {
+    if (isPlaying) audioRef.current?.pause();
+    else play(positionMs >= durationMs ? 0 : undefined);
+  };
+
+  // Clicking the waveform seeks there and keeps (or starts) playing
+  const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const targetMs = fraction * durationMs;
+    setPositionMs(targetMs);
+    play(targetMs);
+  };
+
+  const bars = peaks.length > 0 ? peaks : Array.from({ length: WAVEFORM_BARS }, () => 30);
+  const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+  const isOwn = variant === 'own';
+
+  return (
+    <div className="flex min-w-[220px] items-center gap-3">
+      <button
+        type="button"
+        onClick={togglePlayback}
+        title={isPlaying ? 'Pause' : 'Play'}
+        className={`flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full ${isOwn ? 'bg-white text-blue-600' : 'bg-blue-500 text-white'}`}
+      >
+        {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5 ml-0.5" />}
+      </button>
+      <div className="flex-1 min-w-0">
+        <div onClick={seek} className="flex h-8 cursor-pointer items-center gap-[2px]" role="slider" aria-valuemin={0} aria-valuemax={durationMs} aria-valuenow={Math.round(positionMs)} aria-label="Seek">
+          {bars.map((peak, index) => {
+            const isPast = (index + 0.5) / bars.length <= progress;
+            return (
+              <span
+                key={index}
+                className={`flex-1 rounded-full ${isPast ? (isOwn ? 'bg-white' : 'bg-blue-500') : (isOwn ? 'bg-white/40' : 'bg-gray-300')}`}
+                style={{ height: `${Math.max(12, peak)}%` }}
+              />
+            );
+          })}
+        </div>
+        <div className={`mt-1 flex items-center justify-between text-xs ${isOwn ? 'text-blue-100' : 'text-gray-500'}`}>
+          <span className="flex items-center gap-1">
+            {formatAudioDuration(isPlaying || positionMs > 0 ? positionMs : durationMs)}
+            {isOwn
+              ? <Mic className={`h-3 w-3 ${played ? 'text-white' : 'opacity-60'}`} />
+              : !played && <span className="h-2 w-2 rounded-full bg-blue-500" title="Not played yet" />}
+          </span>
+          <button
+            type="button"
+            onClick={() => setRateIndex(index => (index + 1) % PLAYBACK_RATES.length)}
+            title="Playback speed"
+            className={`rounded-full px-1.5 font-semibold ${isOwn ? 'bg-white/20' : 'bg-gray-100'}`}
+          >
+            {PLAYBACK_RATES[rateIndex]}×
+          </button>
+        </div>
+      </div>
+      <audio
+        ref={audioRef}
+        preload="none"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setPositionMs(durationMs);
+        }}
+        className="hidden"
+      />
+    </div>
+  );
+};
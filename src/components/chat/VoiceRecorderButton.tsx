@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronUp, Loader2, Lock, Mic, Send, Trash2 } from 'lucide-react';
+import { computeWaveformPeaks, formatAudioDuration, pickRecordingMimeType } from '@/lib/audio';
+import type { VoiceRecording } from '@/components/chat/types';
+
+interface VoiceRecorderButtonProps {
+  disabled?: boolean;
+  onRecorded: (recording: VoiceRecording) => void;
+}
+
+type RecorderStatus = 'idle' | 'starting' | 'recording' | 'locked' | 'processing';
+
+// Drag distances (px) from where the press started
+const CANCEL_DISTANCE = 100;
+const LOCK_DISTANCE = 70;
+// Shorter presses are taps, not recordings
+const MIN_DURATION_MS = 500;
+// Mirrors the CHECK on messages.audio_duration_ms
+const MAX_DURATION_MS = 15 * 60 * 1000;
+
+// Hold to record and release to send; slide left to cancel, slide up to lock and keep
+// recording hands-free. Enter or Space starts a locked recording from the keyboard.
+export const VoiceRecorderButton: React.FC<VoiceRecorderButtonProps> = ({ disabled, onRecorded }) => {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [dragX, setDragX] = useState(0);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  const statusRef = useRef<RecorderStatus>('idle');
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const pressStartRef = useRef<{ x: number; y: number } | null>(null);
+  const sendOnStopRef = useRef(false);
+  // The press can end while the microphone permission prompt is still open
+  const releasedRef = useRef(false);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const updateStatus = (next: RecorderStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  };
+
+  const releaseStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  const handleStop = async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    releaseStream();
+    const durationMs = Date.now() - startedAtRef.current;
+    if (!recorder || !sendOnStopRef.current || durationMs < MIN_DURATION_MS) {
+      updateStatus('idle');
+      return;
+    }
+    updateStatus('processing');
+    const blob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+    chunksRef.current = [];
+    const peaks = await computeWaveformPeaks(blob);
+    onRecordedRef.current({ blob, mime_type: blob.type, duration_ms: Math.min(durationMs, MAX_DURATION_MS), peaks });
+    updateStatus('idle');
+  };
+
+  const stopRecording = (send: boolean) => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return;
+    sendOnStopRef.current = send;
+    recorder.stop();
+  };
+
+  const startRecording = async (locked: boolean) => {
+    updateStatus('starting');
+    setElapsedMs(0);
+    setDragX(0);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (releasedRef.current && !locked) {
+        stream.getTracks().forEach(track => track.stop());
+        updateStatus('idle');
+        return;
+      }
+      const mimeType = pickRecordingMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      chunksRef.current = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = handleStop;
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      recorder.start(250);
+      setPermissionDenied(false);
+      updateStatus(locked ? 'locked' : 'recording');
+    } catch (error) {
+      console.error('Error starting voice recording:', error);
+      setPermissionDenied(true);
+      updateStatus('idle');
+    }
+  };
+
+  // Elapsed time, and the hard stop at the maximum length
+  useEffect(() => {
+    if (status !== 'recording' && status !== 'locked') return;
+    const interval = window.setInterval(() => {
+      const elapsed = Date.now() - startedAtRef.current;
+      setElapsedMs(elapsed);
+      if (elapsed >= MAX_DURATION_MS) stopRecording(true);
+    }, 200);
+    return () => window.clearInterval(interval);
+  }, [status]);
+
+  useEffect(() => {
+    if (status !== 'recording' && status !== 'locked') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') stopRecording(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [status]);
+
+  // Never leave the microphone on when the composer goes away
+  useEffect(() => () => {
+    sendOnStopRef.current = false;
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') recorderRef.current.stop();
+    releaseStream();
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (e.button !== 0 || statusRef.current !== 'idle') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pressStartRef.current = { x: e.clientX, y: e.clientY };
+    releasedRef.current = false;
+    startRecording(false);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (statusRef.current !== 'recording' || !pressStartRef.current) return;
+    const dx = e.clientX - pressStartRef.current.x;
+    const dy = e.clientY - pressStartRef.current.y;
+    setDragX(Math.min(0, dx));
+    if (dx < -CANCEL_DISTANCE) stopRecording(false);
+    else if (dy < -LOCK_DISTANCE) updateStatus('locked');
+  };
+
+  const handlePointerUp = () => {
+    releasedRef.current = true;
+    pressStartRef.current = null;
+    setDragX(0);
+    if (statusRef.current === 'recording') stopRecording(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if ((e.key === 'Enter' || e.key === ' ') && statusRef.current === 'idle') {
+      e.preventDefault();
+      startRecording(true);
+    }
+  };
+
+  const isActive = status === 'recording' || status === 'locked';
+
+  return (
+    <div className="relative">
+      {isActive && (
+        <div className="absolute bottom-full right-0 mb-3 flex w-[min(90vw,420px)] items-center gap-3 rounded-full border border-gray-200 bg-white px-4 py-2 shadow-lg">
+          <span className="h-2.5 w-2.5 flex-shrink-0 rounded-full bg-red-500 animate-pulse" />
+          <span className="font-mono text-sm text-gray-900">{formatAudioDuration(elapsedMs)}</span>
+          {status === 'recording' ? (
+            <>
+              <span
+                className="flex flex-1 items-center justify-center gap-1 text-sm text-gray-500"
+                style={{ transform: `translateX(${dragX}px)`, opacity: 1 - Math.min(1, -dragX / CANCEL_DISTANCE) }}
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Slide to cancel
+              </span>
+              <span className="flex flex-col items-center text-gray-400" title="Slide up to lock">
+                <Lock className="h-3.5 w-3.5" />
+                <ChevronUp className="h-3.5 w-3.5" />
+              </span>
+            </>
+          ) : (
+            <>
+              <span className="flex-1 text-sm text-gray-500">Recording…</span>
+              <button type="button" onClick={() => stopRecording(false)} title="Discard" className="rounded-full p-1.5 text-gray-500 hover:bg-gray-100">
+                <Trash2 className="h-4 w-4" />
+              </button>
+              <button type="button" onClick={() => stopRecording(true)} title="Send voice message" className="rounded-full bg-blue-500 p-1.5 text-white hover:bg-blue-600">
+                <Send className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      <Button
+        type="button"
+        size="icon"
+        variant="outline"
+        disabled={disabled || status === 'processing'}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        onContextMenu={(e) => e.preventDefault()}
+        title={permissionDenied ? 'Microphone access was blocked' : 'Hold to record a voice message'}
+        className={`touch-none select-none border border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300 rounded-full h-12 w-12 shadow-sm hover:shadow-md ${
+          isActive ? 'scale-110 bg-red-50 text-red-600 border-red-300' : permissionDenied ? 'text-red-600' : 'text-gray-700'
+        }`}
+      >
+        {status === 'processing' || status === 'starting' ? <Loader2 className="h-5 w-5 animate-spin" /> : <Mic className="h-5 w-5" />}
+      </Button>
+    </div>
+  );
+};
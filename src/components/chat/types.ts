@@ -0,0 +1,171 @@
+// ----- Shared chat interfaces -----
+// 'system' messages are notices written by the server, such as disappearing-message timer changes
+export type MessageType = 'text' | 'image' | 'call_info' | 'system' | 'poll' | 'audio' | 'file' | 'album';
+
+// Delivery state of an optimistic bubble that is still in the outbox
+export type SendStatus = 'pending' | 'failed';
+
+export interface Reaction {
+  id: string;
+  emoji: string;
+  user_id: string;
+}
+
+// A file sent with a 'file' or 'album' message; storage_path is empty while it is still uploading
+export interface Attachment {
+  id: string;
+  position: number;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_path: string;
+  // Album photos only: dimensions and a tiny blurred placeholder as a data URL
+  width?: number | null;
+  height?: number | null;
+  thumbnail?: string | null;
+  // Local object URL shown until the upload has finished
+  preview_url?: string;
+}
+
+// A photo in the conversation's lightbox gallery: an image message, or one photo of an album
+export interface LightboxImage {
+  // The message id, or message id:position for album photos
+  id: string;
+  message_id: string;
+  bucket: 'chat-images' | 'chat-files';
+  // Null while the photo is still being sent
+  storage_path: string | null;
+  // Local object URL of an unsent photo
+  preview_url?: string | null;
+  file_name: string;
+  sender_name?: string;
+  created_at: string;
+  // Only whole image messages can be forwarded
+  can_forward: boolean;
+}
+
+// A dropped or pasted file waiting in the composer tray until it is sent
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  // Object URL for image thumbnails
+  preview_url: string | null;
+  caption: string;
+}
+
+export interface PollOption {
+  id: string;
+  position: number;
+  label: string;
+  vote_count: number;
+}
+
+// Only the current user's votes are visible in anonymous polls
+export interface PollVote {
+  option_id: string;
+  user_id: string;
+}
+
+export interface Poll {
+  message_id: string;
+  question: string;
+  allows_multiple: boolean;
+  is_anonymous: boolean;
+  closes_at: string | null;
+  closed_at: string | null;
+  voter_count: number;
+  options: PollOption[];
+  votes: PollVote[];
+}
+
+// A finished recording from the composer, before it is queued for upload
+export interface VoiceRecording {
+  blob: Blob;
+  mime_type: string;
+  duration_ms: number;
+  peaks: number[];
+}
+
+// What the poll composer hands to public.create_poll()
+export interface PollDraft {
+  question: string;
+  options: string[];
+  allows_multiple: boolean;
+  is_anonymous: boolean;
+  closes_at: Date | null;
+}
+
+export interface Message {
+  id: string;
+  content: string | null;
+  image_url?: string | null;
+  message_type: MessageType;
+  created_at: string;
+  sender_id: string;
+  conversation_id: string;
+  thread_root_id?: string | null;
+  reply_count?: number;
+  last_reply_at?: string | null;
+  quoted_message_id?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  expires_at?: string | null;
+  forwarded?: boolean;
+  mentions?: string[];
+  link_preview_hidden?: boolean;
+  client_id?: string | null;
+  send_status?: SendStatus;
+  reactions?: Reaction[];
+  poll?: Poll | null;
+  // Voice notes: storage path in voice-notes, or a local object URL while still in the outbox
+  audio_path?: string | null;
+  audio_preview_url?: string | null;
+  audio_duration_ms?: number | null;
+  audio_peaks?: number[] | null;
+  // user_ids of recipients who have played the voice note
+  played_by?: string[];
+  attachments?: Attachment[];
+  sender_profile?: {
+    display_name: string;
+    avatar_url?: string;
+  };
+}
+
+export interface Conversation {
+  id: string;
+  name?: string;
+  is_group: boolean;
+  created_at: string;
+  participants?: Profile[];
+  last_message_id?: string | null;
+  last_message_preview?: string | null;
+  last_message_sender_id?: string | null;
+  last_message_at?: string | null;
+  unread_count?: number;
+}
+
+export interface Profile {
+  id: string;
+  user_id: string;
+  username: string;
+  display_name: string;
+  avatar_url?: string;
+  last_seen?: string;
+}
+
+// A message to open from outside the conversation view (search hits, mentions)
+export interface MessageTarget {
+  message_id: string;
+  conversation_id: string;
+  thread_root_id: string | null;
+}
+
+// A pinned message as shown in the pinned banner and list
+export interface PinnedMessage {
+  id: string;
+  message_id: string;
+  pinned_by: string;
+  pinned_at: string;
+  sender_id: string;
+  preview: string;
+}
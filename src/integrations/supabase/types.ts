@@ -19,18 +19,24 @@ export type Database = {
           conversation_id: string
           id: string
           joined_at: string
+          last_read_at: string | null
+          last_read_message_id: string | null
           user_id: string
         }
         Insert: {
           conversation_id: string
           id?: string
           joined_at?: string
+          last_read_at?: string | null
+          last_read_message_id?: string | null
           user_id: string
         }
         Update: {
           conversation_id?: string
           id?: string
           joined_at?: string
+          last_read_at?: string | null
+          last_read_message_id?: string | null
           user_id?: string
         }
         Relationships: [
@@ -41,6 +47,13 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conversation_participants_last_read_message_id_fkey"
+            columns: ["last_read_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       conversations: {
@@ -49,6 +62,7 @@ export type Database = {
           created_by: string | null
           id: string
           is_group: boolean
+          message_ttl_seconds: number | null
           name: string | null
           updated_at: string
         }
@@ -57,6 +71,7 @@ export type Database = {
           created_by?: string | null
           id?: string
           is_group?: boolean
+          message_ttl_seconds?: number | null
           name?: string | null
           updated_at?: string
         }
@@ -65,46 +80,296 @@ export type Database = {
           created_by?: string | null
           id?: string
           is_group?: boolean
+          message_ttl_seconds?: number | null
           name?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      hidden_messages: {
+        Row: {
+          conversation_id: string
+          hidden_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          hidden_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          hidden_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hidden_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hidden_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      link_previews: {
+        Row: {
+          description: string | null
+          error: string | null
+          fetched_at: string
+          image_url: string | null
+          site_name: string | null
+          title: string | null
+          url: string
+        }
+        Insert: {
+          description?: string | null
+          error?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          site_name?: string | null
+          title?: string | null
+          url: string
+        }
+        Update: {
+          description?: string | null
+          error?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          site_name?: string | null
+          title?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      message_attachments: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          file_name: string
+          height: number | null
+          id: string
+          message_id: string
+          mime_type: string
+          position: number
+          size_bytes: number
+          storage_path: string
+          thumbnail: string | null
+          uploader_id: string
+          width: number | null
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          file_name: string
+          height?: number | null
+          id?: string
+          message_id: string
+          mime_type: string
+          position?: number
+          size_bytes: number
+          storage_path: string
+          thumbnail?: string | null
+          uploader_id: string
+          width?: number | null
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          file_name?: string
+          height?: number | null
+          id?: string
+          message_id?: string
+          mime_type?: string
+          position?: number
+          size_bytes?: number
+          storage_path?: string
+          thumbnail?: string | null
+          uploader_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_edits: {
+        Row: {
+          conversation_id: string
+          edited_at: string
+          edited_by: string | null
+          id: string
+          message_id: string
+          previous_content: string | null
+        }
+        Insert: {
+          conversation_id: string
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+          message_id: string
+          previous_content?: string | null
+        }
+        Update: {
+          conversation_id?: string
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+          message_id?: string
+          previous_content?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id?: string
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          audio_duration_ms: number | null
+          audio_path: string | null
+          audio_peaks: number[] | null
+          client_id: string | null
           content: string | null
           conversation_id: string
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          expires_at: string | null
+          forwarded: boolean
           id: string
           image_url: string | null
+          last_reply_at: string | null
+          link_preview_hidden: boolean
+          mentions: string[]
           message_type: string
-          reactions: Json | null
-          seen_by: Json | null
+          quoted_message_id: string | null
+          reply_count: number
           sender_id: string
+          thread_root_id: string | null
           user_id: string | null
         }
         Insert: {
+          audio_duration_ms?: number | null
+          audio_path?: string | null
+          audio_peaks?: number[] | null
+          client_id?: string | null
           content?: string | null
           conversation_id: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          expires_at?: string | null
+          forwarded?: boolean
           id?: string
           image_url?: string | null
+          last_reply_at?: string | null
+          link_preview_hidden?: boolean
+          mentions?: string[]
           message_type?: string
-          reactions?: Json | null
-          seen_by?: Json | null
+          quoted_message_id?: string | null
+          reply_count?: number
           sender_id: string
+          thread_root_id?: string | null
           user_id?: string | null
         }
         Update: {
+          audio_duration_ms?: number | null
+          audio_path?: string | null
+          audio_peaks?: number[] | null
+          client_id?: string | null
           content?: string | null
           conversation_id?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          expires_at?: string | null
+          forwarded?: boolean
           id?: string
           image_url?: string | null
+          last_reply_at?: string | null
+          link_preview_hidden?: boolean
+          mentions?: string[]
           message_type?: string
-          reactions?: Json | null
-          seen_by?: Json | null
+          quoted_message_id?: string | null
+          reply_count?: number
           sender_id?: string
+          thread_root_id?: string | null
           user_id?: string | null
         }
         Relationships: [
@@ -115,6 +380,20 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_sender_id_profiles_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "messages_thread_root_id_fkey"
+            columns: ["thread_root_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_user_id_fkey"
             columns: ["user_id"]
@@ -124,6 +403,184 @@ export type Database = {
           },
         ]
       }
+      pinned_messages: {
+        Row: {
+          conversation_id: string
+          id: string
+          message_id: string
+          pinned_at: string
+          pinned_by: string
+        }
+        Insert: {
+          conversation_id: string
+          id?: string
+          message_id: string
+          pinned_at?: string
+          pinned_by: string
+        }
+        Update: {
+          conversation_id?: string
+          id?: string
+          message_id?: string
+          pinned_at?: string
+          pinned_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pinned_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pinned_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_options: {
+        Row: {
+          conversation_id: string
+          id: string
+          label: string
+          message_id: string
+          position: number
+          vote_count: number
+        }
+        Insert: {
+          conversation_id: string
+          id?: string
+          label: string
+          message_id: string
+          position: number
+          vote_count?: number
+        }
+        Update: {
+          conversation_id?: string
+          id?: string
+          label?: string
+          message_id?: string
+          position?: number
+          vote_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_options_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_options_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["message_id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          conversation_id: string
+          message_id: string
+          option_id: string
+          user_id: string
+          voted_at: string
+        }
+        Insert: {
+          conversation_id: string
+          message_id: string
+          option_id: string
+          user_id: string
+          voted_at?: string
+        }
+        Update: {
+          conversation_id?: string
+          message_id?: string
+          option_id?: string
+          user_id?: string
+          voted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_votes_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["message_id"]
+          },
+          {
+            foreignKeyName: "poll_votes_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      polls: {
+        Row: {
+          allows_multiple: boolean
+          closed_at: string | null
+          closes_at: string | null
+          conversation_id: string
+          created_at: string
+          is_anonymous: boolean
+          message_id: string
+          question: string
+          voter_count: number
+        }
+        Insert: {
+          allows_multiple?: boolean
+          closed_at?: string | null
+          closes_at?: string | null
+          conversation_id: string
+          created_at?: string
+          is_anonymous?: boolean
+          message_id: string
+          question: string
+          voter_count?: number
+        }
+        Update: {
+          allows_multiple?: boolean
+          closed_at?: string | null
+          closes_at?: string | null
+          conversation_id?: string
+          created_at?: string
+          is_anonymous?: boolean
+          message_id?: string
+          question?: string
+          voter_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "polls_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "polls_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -160,11 +617,186 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          mentions: string[]
+          scheduled_for: string
+          sender_id: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          scheduled_for: string
+          sender_id: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          scheduled_for?: string
+          sender_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      starred_messages: {
+        Row: {
+          conversation_id: string
+          message_id: string
+          starred_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          message_id: string
+          starred_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          message_id?: string
+          starred_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "starred_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "starred_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      voice_note_plays: {
+        Row: {
+          conversation_id: string
+          message_id: string
+          played_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          message_id: string
+          played_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          message_id?: string
+          played_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "voice_note_plays_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "voice_note_plays_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      attachment_size_limit: {
+        Args: { mime_type: string }
+        Returns: number
+      }
+      can_manage_pins: {
+        Args: { conversation_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
+      chat_image_in_use: {
+        Args: { image_path: string }
+        Returns: boolean
+      }
+      chat_image_path: {
+        Args: { image_url: string }
+        Returns: string
+      }
+      close_poll: {
+        Args: { poll_message_uuid: string }
+        Returns: string
+      }
+      create_poll: {
+        Args: {
+          allows_multiple?: boolean
+          closes_at?: string
+          conversation_uuid: string
+          is_anonymous?: boolean
+          options: string[]
+          question: string
+        }
+        Returns: string
+      }
+      delete_message_for_everyone: {
+        Args: { message_uuid: string }
+        Returns: string
+      }
+      deliver_scheduled_messages: {
+        Args: never
+        Returns: number
+      }
+      forward_message: {
+        Args: { conversation_uuids: string[]; message_uuid: string }
+        Returns: string[]
+      }
+      get_my_conversations: {
+        Args: never
+        Returns: {
+          created_at: string
+          id: string
+          is_group: boolean
+          last_message_at: string
+          last_message_id: string
+          last_message_preview: string
+          last_message_sender_id: string
+          name: string
+          participants: Json
+          unread_count: number
+        }[]
+      }
+      has_pin_capacity: {
+        Args: { conversation_uuid: string }
+        Returns: boolean
+      }
       is_conversation_creator: {
         Args: { conversation_uuid: string; user_uuid: string }
         Returns: boolean
@@ -173,6 +805,57 @@ export type Database = {
         Args: { conversation_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      mark_conversation_read: {
+        Args: { conversation_uuid: string; message_uuid?: string }
+        Returns: string
+      }
+      message_preview: {
+        Args: { content: string; message_type: string }
+        Returns: string
+      }
+      search_messages: {
+        Args: {
+          from_date?: string
+          result_limit?: number
+          search_query: string
+          sender_filter?: string
+          to_date?: string
+          type_filter?: string
+        }
+        Returns: {
+          conversation_id: string
+          created_at: string
+          message_id: string
+          message_type: string
+          rank: number
+          sender_id: string
+          snippet: string
+          thread_root_id: string
+        }[]
+      }
+      send_attachment_message: {
+        Args: {
+          as_album?: boolean
+          caption?: string
+          client_uuid: string
+          conversation_uuid: string
+          file_names: string[]
+          image_heights?: number[]
+          image_widths?: number[]
+          quoted_message_uuid?: string
+          storage_paths: string[]
+          thumbnails?: string[]
+        }
+        Returns: string
+      }
+      set_message_ttl: {
+        Args: { conversation_uuid: string; ttl_seconds: number }
+        Returns: undefined
+      }
+      vote_in_poll: {
+        Args: { option_uuids: string[]; poll_message_uuid: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
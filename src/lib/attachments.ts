@@ -0,0 +1,91 @@
+// File attachment helpers. The size limits mirror public.attachment_size_limit(), which
+// has the final say when the message is stored.
+
+const MB = 1024 * 1024;
+
+const ARCHIVE_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/x-7z-compressed',
+  'application/x-rar-compressed',
+  'application/vnd.rar',
+  'application/gzip',
+  'application/x-tar',
+];
+
+const OFFICE_TYPES = ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint', 'application/rtf'];
+
+export type AttachmentKind = 'image' | 'media' | 'archive' | 'document' | 'spreadsheet' | 'text' | 'other';
+
+// Browsers leave the type empty for extensions they don't know
+export const getAttachmentMimeType = (file: Blob) => file.type || 'application/octet-stream';
+
+export const getAttachmentKind = (mimeType: string): AttachmentKind => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/') || mimeType.startsWith('video/')) return 'media';
+  if (ARCHIVE_TYPES.includes(mimeType)) return 'archive';
+  if (mimeType === 'application/vnd.ms-excel' || mimeType.includes('spreadsheet') || mimeType === 'text/csv') return 'spreadsheet';
+  if (
+    mimeType === 'application/pdf' ||
+    OFFICE_TYPES.includes(mimeType) ||
+    mimeType.startsWith('application/vnd.openxmlformats-officedocument.') ||
+    mimeType.startsWith('application/vnd.oasis.opendocument.')
+  ) return 'document';
+  if (mimeType.startsWith('text/') || mimeType === 'application/json') return 'text';
+  return 'other';
+};
+
+export const getAttachmentSizeLimit = (mimeType: string) => {
+  if (mimeType.startsWith('image/')) return 10 * MB;
+  if (mimeType.startsWith('audio/') || mimeType.startsWith('video/')) return 50 * MB;
+  if (ARCHIVE_TYPES.includes(mimeType)) return 50 * MB;
+  if (
+    mimeType === 'application/pdf' ||
+    OFFICE_TYPES.includes(mimeType) ||
+    mimeType.startsWith('application/vnd.openxmlformats-officedocument.') ||
+    mimeType.startsWith('application/vnd.oasis.opendocument.')
+  ) return 25 * MB;
+  if (mimeType.startsWith('text/') || mimeType === 'application/json') return 5 * MB;
+  return 10 * MB;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`;
+  return `${(bytes / MB).toFixed(bytes < 10 * MB ? 1 : 0)} MB`;
+};
+
+// Why a file can't be attached, or null when it can
+export const validateAttachment = (file: File) => {
+  const limit = getAttachmentSizeLimit(getAttachmentMimeType(file));
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > limit) return `${file.name} is larger than ${formatFileSize(limit)}`;
+  return null;
+};
+
+// Photos are resized before sending, so originals may be larger than the 10MB upload limit.
+// GIFs are sent as they are and have to fit it from the start.
+export const MAX_SOURCE_IMAGE_BYTES = 50 * MB;
+
+// Why a file can't be sent as a photo, or null when it can
+export const validateImage = (file: File) => {
+  if (!file.type.startsWith('image/')) return `${file.name} is not an image`;
+  const limit = file.type === 'image/gif' ? getAttachmentSizeLimit(file.type) : MAX_SOURCE_IMAGE_BYTES;
+  if (file.size > limit) return `${file.name} is larger than ${formatFileSize(limit)}`;
+  return null;
+};
+
+// Why a photo can't be sent once compressed, or null when it can. Compression may hand back
+// the original, and the server only checks sizes after the whole album has uploaded.
+export const validateCompressedImage = (original: File, compressed: Blob) => {
+  const limit = getAttachmentSizeLimit(getAttachmentMimeType(compressed));
+  if (compressed.size <= limit) return null;
+  return compressed === original
+    ? `${original.name} is larger than ${formatFileSize(limit)} and couldn't be resized`
+    : `${original.name} is still larger than ${formatFileSize(limit)} after resizing`;
+};
+
+// Storage only accepts a limited character set in object names; the original name is kept
+// in message_attachments.file_name for display and downloads
+export const toStorageFileName = (fileName: string) =>
+  fileName.normalize('NFKD').replace(/[^\w.-]+/g, '_').replace(/^[._]+/, '').slice(-120) || 'file';
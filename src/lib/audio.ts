@@ -0,0 +1,61 @@
+// Voice note helpers shared by the recorder and the player
+
+// Number of bars drawn for a voice note; mirrors the cap on messages.audio_peaks
+export const WAVEFORM_BARS = 48;
+
+// Containers the voice-notes bucket accepts, in order of preference
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+// First container this browser can record, or undefined to let MediaRecorder choose
+export const pickRecordingMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? undefined : RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+// 'audio/webm;codecs=opus' -> 'audio/webm'
+export const getBaseMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase();
+
+export const getAudioExtension = (mimeType: string) => EXTENSIONS[getBaseMimeType(mimeType)] ?? 'webm';
+
+// m:ss, or h:mm:ss past an hour
+export const formatAudioDuration = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Loudest sample per slice, scaled so the loudest slice is 100. Decoding can fail for
+// containers the browser records but cannot decode; the player then draws flat bars.
+export const computeWaveformPeaks = async (blob: Blob, bars = WAVEFORM_BARS): Promise<number[]> => {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+    const peaks: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * sliceSize);
+      for (let i = bar * sliceSize; i < end; i++) {
+        const value = Math.abs(samples[i]);
+        if (value > peak) peak = value;
+      }
+      peaks.push(peak);
+    }
+    const loudest = Math.max(...peaks);
+    return peaks.map(peak => (loudest > 0 ? Math.round((peak / loudest) * 100) : 0));
+  } catch (error) {
+    console.error('Error computing waveform:', error);
+    return [];
+  } finally {
+    context.close();
+  }
+};
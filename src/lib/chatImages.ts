@@ -0,0 +1,46 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// chat-images is private. Image messages keep the object's public URL, which doesn't load
+// but still names the object, so it is exchanged for a short-lived signed URL to display.
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+// Short enough that a leaked link is useless, long enough to start the download
+const DOWNLOAD_URL_TTL_SECONDS = 60;
+// Cached URLs are handed out until this close to expiring
+const SIGNED_URL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+// Storage path of a chat-images attachment, taken from its URL
+export const getChatImagePath = (imageUrl: string) => {
+  const marker = '/chat-images/';
+  const index = imageUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(imageUrl.slice(index + marker.length).split('?')[0]);
+};
+
+export const getSignedStorageUrl = async (bucket: string, path: string) => {
+  const key = `${bucket}/${path}`;
+  const cached = signedUrls.get(key);
+  if (cached && cached.expiresAt - Date.now() > SIGNED_URL_REFRESH_MARGIN_MS) return cached.url;
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+  if (error) throw error;
+  signedUrls.set(key, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000 });
+  return data.signedUrl;
+};
+
+// Local previews of unsent images are used as they are
+export const resolveChatImageUrl = async (imageUrl: string) => {
+  if (imageUrl.startsWith('blob:')) return imageUrl;
+  const path = getChatImagePath(imageUrl);
+  return path ? getSignedStorageUrl('chat-images', path) : imageUrl;
+};
+
+// Saves a stored file under the given name via a one-off signed download URL
+export const downloadStorageFile = async (bucket: string, path: string, fileName: string) => {
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, DOWNLOAD_URL_TTL_SECONDS, { download: fileName });
+  if (error) throw error;
+  const link = document.createElement('a');
+  link.href = data.signedUrl;
+  link.rel = 'noopener';
+  link.click();
+};
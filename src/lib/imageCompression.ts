@@ -0,0 +1,75 @@
+import type { CompressionRequest, CompressionResult } from './imageCompression.worker';
+
+export interface CompressedImage {
+  blob: Blob;
+  // Unknown when the browser couldn't decode the photo off the main thread
+  width: number | null;
+  height: number | null;
+  thumbnail: string | null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (result: CompressionResult) => void>();
+
+// One worker for every photo; it handles them one at a time so a big album can't
+// decode ten camera images into memory at once
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./imageCompression.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CompressionResult>) => {
+      pendingRequests.get(event.data.id)?.(event.data);
+      pendingRequests.delete(event.data.id);
+    };
+    // The worker failed to load or crashed; everything waiting on it gets sent as is
+    worker.onerror = (event) => {
+      pendingRequests.forEach((resolve, id) => resolve({ id, error: event.message }));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const uncompressed = (file: Blob): CompressedImage => ({ blob: file, width: null, height: null, thumbnail: null });
+
+export const getImageExtension = (blob: Blob, fallbackName?: string) =>
+  EXTENSIONS[blob.type] ?? fallbackName?.split('.').pop()?.toLowerCase() ?? 'jpg';
+
+// Swaps the original name's extension for the one of the compressed format
+export const toCompressedFileName = (fileName: string, blob: Blob) => {
+  const dot = fileName.lastIndexOf('.');
+  return `${dot > 0 ? fileName.slice(0, dot) : fileName}.${getImageExtension(blob, fileName)}`;
+};
+
+// Resizes a photo for sending. Falls back to the original file where the browser can't
+// compress in a worker, so sending never depends on it.
+export const compressImage = async (file: Blob): Promise<CompressedImage> => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return uncompressed(file);
+
+  const result = await new Promise<CompressionResult>((resolve) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, resolve);
+    const request: CompressionRequest = { id, file };
+    getWorker().postMessage(request);
+  });
+
+  if (result.error || !result.blob) {
+    console.error('Error compressing image:', result.error);
+    return uncompressed(file);
+  }
+  return {
+    blob: result.blob,
+    width: result.width ?? null,
+    height: result.height ?? null,
+    thumbnail: result.thumbnail ?? null,
+  };
+};
@@ -0,0 +1,85 @@
+// Resizes and re-encodes photos off the main thread, and renders the tiny placeholder
+// shown while the full photo loads. Spawned by compressImage() in imageCompression.ts.
+
+export interface CompressionRequest {
+  id: number;
+  file: Blob;
+}
+
+export interface CompressionResult {
+  id: number;
+  blob?: Blob;
+  width?: number;
+  height?: number;
+  thumbnail?: string;
+  error?: string;
+}
+
+// Longest edge after resizing; sharp on any phone screen at a fraction of the camera's size
+const MAX_DIMENSION = 2048;
+const QUALITY = 0.82;
+const THUMBNAIL_DIMENSION = 24;
+
+const scaleToFit = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const render = (bitmap: ImageBitmap, width: number, height: number, type: string, quality: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('2D canvas is not available');
+  // JPEG has no transparency, which would otherwise come out black
+  if (type === 'image/jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  return canvas.convertToBlob({ type, quality });
+};
+
+const toDataUrl = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:${blob.type};base64,${btoa(binary)}`;
+};
+
+const compress = async ({ id, file }: CompressionRequest): Promise<CompressionResult> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const size = scaleToFit(bitmap.width, bitmap.height, MAX_DIMENSION);
+    const thumbnailSize = scaleToFit(bitmap.width, bitmap.height, THUMBNAIL_DIMENSION);
+    const thumbnail = await toDataUrl(await render(bitmap, thumbnailSize.width, thumbnailSize.height, 'image/jpeg', 0.5));
+
+    // Re-encoding would drop a GIF's animation
+    if (file.type === 'image/gif') {
+      return { id, blob: file, width: bitmap.width, height: bitmap.height, thumbnail };
+    }
+
+    // PNGs are usually screenshots or have transparency, which WebP keeps and JPEG doesn't.
+    // Browsers without a WebP encoder hand back a PNG instead.
+    const type = file.type === 'image/png' ? 'image/webp' : 'image/jpeg';
+    const compressed = await render(bitmap, size.width, size.height, type, QUALITY);
+
+    // Small images that were already well compressed can come out larger
+    if (compressed.size >= file.size && size.width === bitmap.width) {
+      return { id, blob: file, width: bitmap.width, height: bitmap.height, thumbnail };
+    }
+    return { id, blob: compressed, width: size.width, height: size.height, thumbnail };
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.onmessage = async (event: MessageEvent<CompressionRequest>) => {
+  let result: CompressionResult;
+  try {
+    result = await compress(event.data);
+  } catch (error) {
+    result = { id: event.data.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(result);
+};
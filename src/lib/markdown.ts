@@ -0,0 +1,207 @@
+// Parser for the Markdown subset used in chat messages: bold, italics, strike,
+// inline code, fenced code blocks, lists, blockquotes, auto-linked URLs and @mentions.
+// It produces a plain tree that is rendered as React elements, never as an HTML
+// string, so any HTML in a message is shown as text rather than interpreted.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: InlineNode[] }
+  | { type: 'link'; href: string; text: string }
+  | { type: 'mention'; username: string };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code_block'; language: string | null; code: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Only http(s) and mailto links survive; javascript:, data: and anything unparsable are dropped
+export const sanitizeUrl = (rawUrl: string) => {
+  const candidate = /^www\./i.test(rawUrl) ? `https://${rawUrl}` : rawUrl;
+  try {
+    const url = new URL(candidate);
+    return ALLOWED_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const ESCAPABLE = '\\`*_~>#-+.!()[]';
+
+// Sticky patterns, tried at the current position only
+const CODE_SPAN = /`([^`\n]+)`/y;
+const STRONG_STARS = /\*\*(?=\S)([\s\S]*?\S)\*\*/y;
+const STRONG_UNDERSCORES = /__(?=\S)([\s\S]*?\S)__(?!\w)/y;
+const STRIKE = /~~(?=\S)([\s\S]*?\S)~~/y;
+const EM_STAR = /\*(?=[^\s*])([^*]*?[^\s*])\*/y;
+const EM_UNDERSCORE = /_(?=[^\s_])([^_]*?[^\s_])_(?!\w)/y;
+// Trailing punctuation is left out so "see https://example.com." links the URL only
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s<>"`]*[^\s<>"`.,:;'!?)\]]/iy;
+const MENTION = /@([A-Za-z0-9_]+(?:[.-][A-Za-z0-9_]+)*)/y;
+
+const matchAt = (pattern: RegExp, text: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    // snake_case and URLs inside words should not start emphasis or links
+    const atWordStart = index === 0 || !/\w/.test(text[index - 1]);
+    let match: RegExpExecArray | null;
+
+    if (char === '\\' && index + 1 < text.length && ESCAPABLE.includes(text[index + 1])) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      index += 1;
+      continue;
+    }
+    if (char === '`' && (match = matchAt(CODE_SPAN, text, index))) {
+      flush();
+      nodes.push({ type: 'code', text: match[1] });
+    } else if (char === '*' && (match = matchAt(STRONG_STARS, text, index))) {
+      flush();
+      nodes.push({ type: 'strong', children: parseInline(match[1]) });
+    } else if (char === '_' && atWordStart && (match = matchAt(STRONG_UNDERSCORES, text, index))) {
+      flush();
+      nodes.push({ type: 'strong', children: parseInline(match[1]) });
+    } else if (char === '~' && (match = matchAt(STRIKE, text, index))) {
+      flush();
+      nodes.push({ type: 'strike', children: parseInline(match[1]) });
+    } else if (char === '*' && (match = matchAt(EM_STAR, text, index))) {
+      flush();
+      nodes.push({ type: 'em', children: parseInline(match[1]) });
+    } else if (char === '_' && atWordStart && (match = matchAt(EM_UNDERSCORE, text, index))) {
+      flush();
+      nodes.push({ type: 'em', children: parseInline(match[1]) });
+    } else if (char === '@' && atWordStart && (match = matchAt(MENTION, text, index))) {
+      flush();
+      nodes.push({ type: 'mention', username: match[1] });
+    } else if (/[hw]/i.test(char) && atWordStart && (match = matchAt(URL_PATTERN, text, index))) {
+      const href = sanitizeUrl(match[0]);
+      if (!href) {
+        buffer += match[0];
+      } else {
+        flush();
+        nodes.push({ type: 'link', href, text: match[0] });
+      }
+    } else {
+      buffer += char;
+      index += 1;
+      continue;
+    }
+    index += match[0].length;
+  }
+  flush();
+  return nodes;
+};
+
+const FENCE_OPEN = /^\s*```\s*([\w+#-]{0,20})\s*$/;
+const FENCE_CLOSE = /^\s*```\s*$/;
+const QUOTE_LINE = /^\s*>/;
+const LIST_ITEM = /^\s*([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+const isBlockStart = (line: string) => FENCE_OPEN.test(line) || QUOTE_LINE.test(line) || LIST_ITEM.test(line);
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    // An unclosed fence runs to the end of the message
+    const fence = line.match(FENCE_OPEN);
+    if (fence) {
+      const codeLines: string[] = [];
+      index += 1;
+      while (index < lines.length && !FENCE_CLOSE.test(lines[index])) {
+        codeLines.push(lines[index]);
+        index += 1;
+      }
+      index += 1;
+      blocks.push({ type: 'code_block', language: fence[1] || null, code: codeLines.join('\n') });
+      continue;
+    }
+
+    if (QUOTE_LINE.test(line)) {
+      const quotedLines: string[] = [];
+      while (index < lines.length && QUOTE_LINE.test(lines[index])) {
+        quotedLines.push(lines[index].replace(/^\s*> ?/, ''));
+        index += 1;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quotedLines.join('\n')) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: InlineNode[][] = [];
+      while (index < lines.length) {
+        const item = lines[index].match(LIST_ITEM);
+        if (!item || /\d/.test(item[1]) !== ordered) break;
+        items.push(parseInline(item[2]));
+        index += 1;
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[1], 10) : 1, items });
+      continue;
+    }
+
+    const paragraphLines = [line];
+    index += 1;
+    while (index < lines.length && lines[index].trim() && !isBlockStart(lines[index])) {
+      paragraphLines.push(lines[index]);
+      index += 1;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraphLines.join('\n')) });
+  }
+
+  return blocks;
+};
+
+const findLinkInInline = (nodes: InlineNode[]): string | null => {
+  for (const node of nodes) {
+    if (node.type === 'link') return node.href;
+    if (node.type === 'strong' || node.type === 'em' || node.type === 'strike') {
+      const href = findLinkInInline(node.children);
+      if (href) return href;
+    }
+  }
+  return null;
+};
+
+// First auto-linked URL of a message, skipping code; used for link previews
+export const findFirstLink = (blocks: BlockNode[]): string | null => {
+  for (const block of blocks) {
+    let href: string | null = null;
+    if (block.type === 'paragraph') href = findLinkInInline(block.children);
+    else if (block.type === 'blockquote') href = findFirstLink(block.children);
+    else if (block.type === 'list') href = block.items.map(findLinkInInline).find(Boolean) ?? null;
+    if (href) return href;
+  }
+  return null;
+};
@@ -0,0 +1,46 @@
+import type { Profile } from '@/components/chat/types';
+
+// A mention is "@" followed by a username, at the start of the text or after whitespace
+const USERNAME = String.raw`[A-Za-z0-9_]+(?:[.-][A-Za-z0-9_]+)*`;
+const MENTION_PATTERN = new RegExp(String.raw`(^|\s)@(${USERNAME})`, 'g');
+
+export interface MentionQuery {
+  query: string;
+  // Index of the "@" in the text
+  start: number;
+}
+
+// The partial "@name" being typed right before the caret, if any
+export const getMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const match = text.slice(0, caret).match(/(^|\s)@([A-Za-z0-9_.-]*)$/);
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+export const filterMentionCandidates = (participants: Profile[], query: string, limit = 6) => {
+  const normalized = query.toLowerCase();
+  return participants
+    .filter(p => p.username?.toLowerCase().startsWith(normalized) || p.display_name?.toLowerCase().includes(normalized))
+    .slice(0, limit);
+};
+
+// Replaces the partial mention with the full username and returns the new text and caret
+export const insertMention = (text: string, mention: MentionQuery, username: string) => {
+  const end = mention.start + 1 + mention.query.length;
+  const inserted = `@${username} `;
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(end),
+    caret: mention.start + inserted.length,
+  };
+};
+
+// user_ids of the participants mentioned in a message; the server re-validates this list
+export const extractMentionedUserIds = (text: string, participants: Profile[]) => {
+  const byUsername = new Map(participants.filter(p => p.username).map(p => [p.username.toLowerCase(), p.user_id]));
+  const userIds = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const userId = byUsername.get(match[2].toLowerCase());
+    if (userId) userIds.add(userId);
+  }
+  return [...userIds];
+};
@@ -0,0 +1,84 @@
+import type { MessageType, SendStatus } from '@/components/chat/types';
+
+export interface AlbumPhoto {
+  file: Blob;
+  file_name: string;
+  width: number | null;
+  height: number | null;
+  thumbnail: string | null;
+}
+
+// Messages that have not reached the server yet. Kept in IndexedDB so they
+// survive reloads and go out once the device is back online.
+export interface OutboxItem {
+  client_id: string;
+  user_id: string;
+  conversation_id: string;
+  message_type: Extract<MessageType, 'text' | 'image' | 'audio' | 'file' | 'album'>;
+  content: string | null;
+  // Image, audio and file messages keep the file until it has been uploaded
+  file?: Blob;
+  file_ext?: string;
+  // Original name of an attached file
+  file_name?: string;
+  // Album photos, compressed and in display order
+  album?: AlbumPhoto[];
+  // Voice note metadata, stored with the message
+  audio_duration_ms?: number;
+  audio_peaks?: number[];
+  quoted_message_id: string | null;
+  // user_ids of @mentioned participants
+  mentions: string[];
+  created_at: string;
+  status: SendStatus;
+}
+
+const DB_NAME = 'chat-outbox';
+const STORE_NAME = 'messages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'client_id' });
+        store.createIndex('user_id', 'user_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Resolves once the transaction has committed, so a resolved write is durable
+const runTransaction = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const putOutboxItem = (item: OutboxItem) =>
+  runTransaction('readwrite', store => store.put(item));
+
+export const deleteOutboxItem = (clientId: string) =>
+  runTransaction('readwrite', store => store.delete(clientId));
+
+export const getOutboxItem = (clientId: string) =>
+  runTransaction<OutboxItem | undefined>('readonly', store => store.get(clientId));
+
+// Oldest first, so flushing preserves the order messages were written in
+export const getOutboxItems = async (userId: string) => {
+  const items = await runTransaction<OutboxItem[]>('readonly', store => store.index('user_id').getAll(userId));
+  return items.sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
@@ -0,0 +1,6 @@
+import { addHours, format, startOfHour } from 'date-fns';
+
+// Suggested delivery time for a new scheduled message: the next full hour
+export const getDefaultScheduleTime = () => startOfHour(addHours(new Date(), 1));
+
+export const formatScheduleTime = (value: Date | string) => format(new Date(value), 'PPP p');
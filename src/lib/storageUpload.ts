@@ -0,0 +1,98 @@
+import * as tus from 'tus-js-client';
+import { SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL, supabase } from '@/integrations/supabase/client';
+
+interface UploadOptions {
+  contentType: string;
+  // Fraction of the bytes stored so far, between 0 and 1
+  onProgress?: (fraction: number) => void;
+  // Aborting stops the upload and discards what was already sent
+  signal?: AbortSignal;
+}
+
+const RESUMABLE_ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+// Supabase Storage only accepts chunks of exactly 6MB
+const CHUNK_SIZE = 6 * 1024 * 1024;
+// Keeps retrying through a dropped connection; each attempt continues from the last stored chunk
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000];
+
+export const isUploadCancelled = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Storage answers the creation request with 409 when the object already exists
+const isAlreadyStored = (error: Error) =>
+  error instanceof tus.DetailedError
+  && error.originalRequest?.getMethod() === 'POST'
+  && error.originalResponse?.getStatus() === 409;
+
+// tus-js-client's default, minus retrying an object that already exists
+const shouldRetry = (error: tus.DetailedError) => {
+  if (isAlreadyStored(error)) return false;
+  const status = error.originalResponse?.getStatus() ?? 0;
+  return (status < 400 || status >= 500 || status === 409 || status === 423) && navigator.onLine;
+};
+
+// Uploads through Storage's TUS endpoint, so an interrupted upload continues where it left
+// off instead of starting over - also after a reload, since the outbox keeps the file and
+// the object name embeds the message's client id. For the same reason an object that already
+// exists is an earlier attempt that finished; uploads never upsert, since that also needs read
+// access the chat-images policy only grants once a message references the object.
+export const uploadResumable = (bucket: string, path: string, file: Blob, { contentType, onProgress, signal }: UploadOptions) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+
+    const upload = new tus.Upload(file, {
+      endpoint: RESUMABLE_ENDPOINT,
+      chunkSize: CHUNK_SIZE,
+      retryDelays: RETRY_DELAYS,
+      onShouldRetry: shouldRetry,
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      fingerprint: async () => `chat-upload:${bucket}/${path}`,
+      headers: {
+        apikey: SUPABASE_PUBLISHABLE_KEY,
+      },
+      metadata: {
+        bucketName: bucket,
+        objectName: path,
+        contentType,
+        cacheControl: '3600',
+      },
+      // A long upload can outlive the access token, so every request carries the current one
+      onBeforeRequest: async (request) => {
+        const { data } = await supabase.auth.getSession();
+        if (data.session) request.setHeader('Authorization', `Bearer ${data.session.access_token}`);
+      },
+      onProgress: (bytesSent, bytesTotal) => onProgress?.(bytesTotal > 0 ? bytesSent / bytesTotal : 0),
+      onSuccess: () => {
+        signal?.removeEventListener('abort', cancel);
+        onProgress?.(1);
+        resolve();
+      },
+      onError: (error) => {
+        signal?.removeEventListener('abort', cancel);
+        if (isAlreadyStored(error)) {
+          onProgress?.(1);
+          resolve();
+        } else {
+          reject(error);
+        }
+      },
+    });
+
+    const cancel = () => {
+      upload.abort(true).catch(error => console.error('Error cancelling upload:', error));
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    upload
+      .findPreviousUploads()
+      .then(previousUploads => {
+        if (signal?.aborted) return;
+        if (previousUploads.length > 0) upload.resumeFromPreviousUpload(previousUploads[0]);
+        upload.start();
+      })
+      .catch(reject);
+  });
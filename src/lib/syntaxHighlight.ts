@@ -0,0 +1,72 @@
+// Lightweight highlighter for fenced code blocks. It only tells keywords, strings,
+// comments and numbers apart, which covers what people paste into chat without
+// pulling in a full grammar library.
+
+export type HighlightTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface HighlightToken {
+  type: HighlightTokenType;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  // JavaScript / TypeScript
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in',
+  'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw',
+  'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+  // Python
+  'and', 'as', 'def', 'elif', 'except', 'is', 'lambda', 'None', 'not', 'or', 'pass', 'raise', 'True', 'False', 'with',
+  // Go / Rust / Java / C
+  'fn', 'func', 'go', 'impl', 'match', 'mut', 'package', 'pub', 'struct', 'use', 'private', 'protected', 'public',
+  'int', 'float', 'double', 'bool', 'string', 'char',
+]);
+
+const SQL_KEYWORDS = new Set([
+  'select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create',
+  'table', 'alter', 'drop', 'index', 'join', 'left', 'right', 'inner', 'outer', 'on', 'as', 'group', 'by', 'order',
+  'having', 'limit', 'offset', 'null', 'is', 'in', 'exists', 'returning', 'with', 'case', 'when', 'then', 'else',
+  'end', 'distinct', 'union', 'primary', 'key', 'references', 'default', 'function', 'returns', 'begin', 'declare',
+]);
+
+const HASH_COMMENT_LANGUAGES = new Set(['py', 'python', 'rb', 'ruby', 'sh', 'bash', 'shell', 'zsh', 'yaml', 'yml', 'toml', 'r']);
+const SQL_LANGUAGES = new Set(['sql', 'psql', 'postgres', 'plpgsql']);
+const DASH_COMMENT_LANGUAGES = new Set([...SQL_LANGUAGES, 'lua', 'hs', 'haskell']);
+
+const STRING = String.raw`"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|\`(?:[^\`\\]|\\.)*\``;
+const NUMBER = String.raw`\b\d+(?:\.\d+)?\b`;
+const WORD = String.raw`\b[A-Za-z_]\w*\b`;
+
+const getCommentPattern = (language: string) => {
+  if (HASH_COMMENT_LANGUAGES.has(language)) return String.raw`#[^\n]*`;
+  if (DASH_COMMENT_LANGUAGES.has(language)) return String.raw`--[^\n]*|\/\*[\s\S]*?\*\/`;
+  return String.raw`\/\/[^\n]*|\/\*[\s\S]*?\*\/`;
+};
+
+export const highlightCode = (code: string, language: string | null): HighlightToken[] => {
+  const normalizedLanguage = (language || '').toLowerCase();
+  const isSql = SQL_LANGUAGES.has(normalizedLanguage);
+  const pattern = new RegExp(`(${getCommentPattern(normalizedLanguage)})|(${STRING})|(${NUMBER})|(${WORD})`, 'g');
+
+  const tokens: HighlightToken[] = [];
+  const push = (type: HighlightTokenType, text: string) => {
+    const previous = tokens[tokens.length - 1];
+    if (previous && previous.type === type) previous.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code))) {
+    if (match.index > lastIndex) push('plain', code.slice(lastIndex, match.index));
+    const [text, comment, string, number] = match;
+    if (comment) push('comment', text);
+    else if (string) push('string', text);
+    else if (number) push('number', text);
+    else if (isSql ? SQL_KEYWORDS.has(text.toLowerCase()) : KEYWORDS.has(text)) push('keyword', text);
+    else push('plain', text);
+    lastIndex = match.index + text.length;
+  }
+  if (lastIndex < code.length) push('plain', code.slice(lastIndex));
+  return tokens;
+};
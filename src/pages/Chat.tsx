@@ -1,59 +1,166 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
-import { Send, Image, User, Plus, Settings, LogOut, UserPlus, ArrowLeft, Video, MessageCircle, Phone, PhoneOff, Check, CheckCheck, Smile, Edit2, Trash2, X } from 'lucide-react';
+import { Send, Image, User, Plus, Settings, LogOut, UserPlus, ArrowLeft, Video, MessageCircle, Phone, PhoneOff, Smile, Edit2, Trash2, X, MessageSquare, Reply, ArrowDown, Loader2, Search, Ban, Clock, AlertCircle, RotateCw, Eye, EyeOff, AtSign, Pin, PinOff, CalendarClock, Timer, Forward, Star, BarChart3, Paperclip, Upload } from 'lucide-react';
 import { VideoCall } from '@/components/VideoCall';
 import { Badge } from '@/components/ui/badge';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { usePushNotifications } from '@/hooks/usePushNotifications';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ThreadPanel } from '@/components/chat/ThreadPanel';
+import { QuotedMessagePreview } from '@/components/chat/QuotedMessagePreview';
+import { MessageSearch } from '@/components/chat/MessageSearch';
+import { ReactionPills } from '@/components/chat/ReactionPills';
+import { SeenIndicator } from '@/components/chat/SeenIndicator';
+import { EditHistoryDialog } from '@/components/chat/EditHistoryDialog';
+import { MarkdownContent } from '@/components/chat/MarkdownContent';
+import { LinkPreviewCard } from '@/components/chat/LinkPreviewCard';
+import { MentionSuggestions } from '@/components/chat/MentionSuggestions';
+import { MentionsList } from '@/components/chat/MentionsList';
+import { StarredMessagesList } from '@/components/chat/StarredMessagesList';
+import { PinnedMessagesBanner } from '@/components/chat/PinnedMessagesBanner';
+import { PinnedMessagesDialog } from '@/components/chat/PinnedMessagesDialog';
+import { ForwardMessageDialog } from '@/components/chat/ForwardMessageDialog';
+import { DisappearingMessagesMenu } from '@/components/chat/DisappearingMessagesMenu';
+import { ScheduleSendButton } from '@/components/chat/ScheduleSendButton';
+import { ScheduledMessagesDialog } from '@/components/chat/ScheduledMessagesDialog';
+import { PollCard } from '@/components/chat/PollCard';
+import { CreatePollDialog } from '@/components/chat/CreatePollDialog';
+import { VoiceRecorderButton } from '@/components/chat/VoiceRecorderButton';
+import { VoiceNotePlayer } from '@/components/chat/VoiceNotePlayer';
+import { FileAttachmentCard } from '@/components/chat/FileAttachmentCard';
+import { AlbumGrid } from '@/components/chat/AlbumGrid';
+import { PendingAttachmentsTray } from '@/components/chat/PendingAttachmentsTray';
+import { ChatImage } from '@/components/chat/ChatImage';
+import { ImageLightbox } from '@/components/chat/ImageLightbox';
+import type { Attachment, Message, MessageType, MessageTarget, Conversation, LightboxImage, PendingAttachment, PinnedMessage, Poll, PollDraft, PollOption, PollVote, Profile, Reaction, SendStatus, VoiceRecording } from '@/components/chat/types';
+import { parseMarkdown, findFirstLink } from '@/lib/markdown';
+import { getMentionQuery, filterMentionCandidates, insertMention, extractMentionedUserIds, type MentionQuery } from '@/lib/mentions';
+import { formatScheduleTime } from '@/lib/schedule';
+import { getAudioExtension, getBaseMimeType } from '@/lib/audio';
+import { getAttachmentMimeType, toStorageFileName, validateAttachment, validateCompressedImage, validateImage } from '@/lib/attachments';
+import { putOutboxItem, deleteOutboxItem, getOutboxItem, getOutboxItems, type AlbumPhoto, type OutboxItem } from '@/lib/outbox';
+import { compressImage, getImageExtension, toCompressedFileName } from '@/lib/imageCompression';
+import { isUploadCancelled, uploadResumable } from '@/lib/storageUpload';
+import { getChatImagePath } from '@/lib/chatImages';
 
 // Simple toast mock function (replace with actual useToast later)
 const useToast = () => ({
   toast: (options: any) => console.log('Toast:', options),
 });
 
-// ----- Interfaces -----
-interface Message {
-  id: string;
-  content: string | null;
-  image_url?: string | null;
-  message_type: 'text' | 'image' | 'call_info';
-  created_at: string;
-  sender_id: string;
-  conversation_id: string;
-  reactions?: { emoji: string; user_id: string }[];
-  seen_by?: string[];
-  sender_profile?: {
-    display_name: string;
-    avatar_url?: string;
-  };
-}
-
 const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '😡', '👍'];
 
-interface Conversation {
-  id: string;
-  name?: string;
-  is_group: boolean;
-  created_at: string;
-  participants?: Profile[];
-}
+const MESSAGES_PAGE_SIZE = 50;
 
-interface Profile {
-  id: string;
-  user_id: string;
-  username: string;
-  display_name: string;
-  avatar_url?: string;
-  last_seen?: string;
-}
+// Mirrors public.has_pin_capacity(); the server enforces it, this only gives a friendlier message
+const PINNED_MESSAGES_LIMIT = 10;
+
+// Mirrors send_attachment_message(): an album holds 2 to 10 photos
+const MAX_ALBUM_PHOTOS = 10;
+
+// Embeds the sender profile, reactions, poll, voice note plays and attachments so a page of messages loads in a single request
+const MESSAGE_SELECT = '*, sender_profile:profiles!messages_sender_id_profiles_fkey(display_name, avatar_url), reactions:message_reactions(id, emoji, user_id), poll:polls(*, options:poll_options(id, position, label, vote_count), votes:poll_votes(option_id, user_id)), plays:voice_note_plays(user_id), attachments:message_attachments(id, position, file_name, mime_type, size_bytes, storage_path, width, height, thumbnail)';
+
+type MessageRow = Tables<'messages'>;
+type PollRow = Tables<'polls'> & { options?: PollOption[] | null; votes?: PollVote[] | null };
+type MessageRowWithProfile = MessageRow & {
+  sender_profile?: Message['sender_profile'] | null;
+  reactions?: Reaction[] | null;
+  poll?: PollRow | null;
+  plays?: { user_id: string }[] | null;
+  attachments?: Attachment[] | null;
+};
+
+const toPoll = (row: PollRow): Poll => ({
+  message_id: row.message_id,
+  question: row.question,
+  allows_multiple: row.allows_multiple,
+  is_anonymous: row.is_anonymous,
+  closes_at: row.closes_at,
+  closed_at: row.closed_at,
+  voter_count: row.voter_count,
+  options: [...(row.options || [])].sort((a, b) => a.position - b.position),
+  votes: row.votes || [],
+});
+
+const sortAttachments = (attachments: Attachment[]) => [...attachments].sort((a, b) => a.position - b.position);
+
+const toMessage = (row: MessageRowWithProfile, senderProfile?: Message['sender_profile']): Message => ({
+  ...row,
+  message_type: row.message_type as MessageType,
+  reactions: row.reactions || [],
+  poll: row.poll ? toPoll(row.poll) : null,
+  played_by: (row.plays || []).map(p => p.user_id),
+  attachments: sortAttachments(row.attachments || []),
+  sender_profile: senderProfile ?? row.sender_profile ?? undefined,
+});
+
+const compareMessages = (a: Message, b: Message) => {
+  const timeDiff = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  return timeDiff !== 0 ? timeDiff : a.id.localeCompare(b.id);
+};
+
+// Merge two message lists by id (existing entries win, they carry realtime updates) and keep them ordered
+const mergeMessages = (existing: Message[], incoming: Message[]) => {
+  const byId = new Map(incoming.map(m => [m.id, m]));
+  existing.forEach(m => byId.set(m.id, m));
+  return [...byId.values()].sort(compareMessages);
+};
+
+// Add a stored message, replacing the optimistic bubble that carries the same client_id
+const upsertDeliveredMessage = (existing: Message[], delivered: Message) => {
+  const withoutOptimistic = delivered.client_id
+    ? existing.filter(m => !(m.send_status && m.client_id === delivered.client_id))
+    : existing;
+  return mergeMessages(withoutOptimistic, [delivered]);
+};
+
+// Newest-first page of top-level messages, strictly older than the (created_at, id) cursor when given
+const fetchMessagePage = (conversationId: string, before?: Pick<Message, 'created_at' | 'id'>) => {
+  let query = supabase.from('messages').select(MESSAGE_SELECT).eq('conversation_id', conversationId).is('thread_root_id', null);
+  if (before) {
+    query = query.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`);
+  }
+  return query.order('created_at', { ascending: false }).order('id', { ascending: false }).limit(MESSAGES_PAGE_SIZE);
+};
+
+const SIDEBAR_TITLES = {
+  conversations: 'Conversations',
+  search: 'Search',
+  mentions: 'Mentions',
+  starred: 'Starred',
+};
+
+// Mirrors public.message_preview() so realtime updates match what get_my_conversations returns
+const getMessagePreview = (messageType: string, content: string | null) => {
+  if (messageType === 'image') return '📷 Photo';
+  if (messageType === 'album') return `📷 ${(content || 'Album').slice(0, 118)}`;
+  if (messageType === 'call_info') return '📞 Call';
+  if (messageType === 'audio') return '🎤 Voice message';
+  if (messageType === 'file') return `📎 ${(content || 'File').slice(0, 118)}`;
+  if (messageType === 'poll') return `📊 ${(content || '').slice(0, 118)}`;
+  return (content || '').slice(0, 120);
+};
+
+const getConversationActivity = (conversation: Conversation) =>
+  new Date(conversation.last_message_at || conversation.created_at).getTime();
+
+const formatConversationTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
 
 // ----- Interface para sa Incoming Call -----
 interface IncomingCall {
@@ -72,7 +179,12 @@ const Chat = () => {
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+
+  // ----- Mention autocomplete state -----
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
   const [searchUsers, setSearchUsers] = useState('');
   const [foundUsers, setFoundUsers] = useState<Profile[]>([]);
   const [showAddUser, setShowAddUser] = useState(false);
@@ -81,6 +193,7 @@ const Chat = () => {
   const [videoCallUrl, setVideoCallUrl] = useState<string>('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
   
   // ----- State para sa Incoming Call -----
   const [incomingCall, setIncomingCall] = useState<IncomingCall | null>(null);
@@ -95,25 +208,130 @@ const Chat = () => {
   // ----- Message editing/deletion state -----
   const [editingMessage, setEditingMessage] = useState<Message | null>(null);
   const [editContent, setEditContent] = useState('');
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
   const [messageToDelete, setMessageToDelete] = useState<Message | null>(null);
+  const [messageToForward, setMessageToForward] = useState<Message | null>(null);
+  // Id of the photo open in the lightbox (see LightboxImage)
+  const [lightboxImageId, setLightboxImageId] = useState<string | null>(null);
+
+  // ----- Thread state -----
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [threadReplies, setThreadReplies] = useState<Message[]>([]);
+  const [isThreadLoading, setIsThreadLoading] = useState(false);
+  const threadRootIdRef = useRef<string | null>(null);
+
+  // ----- Quoted reply state -----
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Quoted originals outside the loaded list; null marks an original that has been deleted
+  const [quotedMessages, setQuotedMessages] = useState<Record<string, Message | null>>({});
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const messageRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const swipeStartXRef = useRef<number | null>(null);
+
+  // ----- Pinned messages state -----
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [canManagePins, setCanManagePins] = useState(false);
+  const [showPinnedList, setShowPinnedList] = useState(false);
+
+  // ----- Scheduled messages state (mine, for the open conversation) -----
+  const [scheduledMessages, setScheduledMessages] = useState<Tables<'scheduled_messages'>[]>([]);
+  const [showScheduledList, setShowScheduledList] = useState(false);
+
+  // ----- Starred messages state (ids in the open conversation) -----
+  const [starredMessageIds, setStarredMessageIds] = useState<Set<string>>(new Set());
+
+  // ----- Disappearing messages state (seconds, null = off) -----
+  const [messageTtl, setMessageTtl] = useState<number | null>(null);
+
+  // ----- Poll composer state -----
+  const [showCreatePoll, setShowCreatePoll] = useState(false);
+
+  // ----- Pagination state -----
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [showJumpToLatest, setShowJumpToLatest] = useState(false);
+  const [newMessagesBelow, setNewMessagesBelow] = useState(0);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const isLoadingOlderRef = useRef(false);
+  const isNearBottomRef = useRef(true);
+  const lastMessageIdRef = useRef<string | null>(null);
+  const scrollRestoreRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const pendingJumpRef = useRef<string | null>(null);
+
+  // ----- Message search state -----
+  const [sidebarView, setSidebarView] = useState<'conversations' | 'search' | 'mentions' | 'starred'>('conversations');
+  const pendingThreadRootRef = useRef<string | null>(null);
+
+  // ----- Outbox state -----
+  const deliveringRef = useRef<Set<string>>(new Set());
+  const previewUrlsRef = useRef<Map<string, string>>(new Map());
+  // Cancels the uploads of a message being delivered, keyed by client_id
+  const uploadControllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Upload progress of each file of a message being delivered, keyed by client_id
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number[]>>({});
+  const [isPreparingImages, setIsPreparingImages] = useState(false);
+
+  // ----- Pending attachments state -----
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const dragDepthRef = useRef(0);
+
+  // ----- Read cursor state (user_id -> last_read_at) -----
+  const [readCursors, setReadCursors] = useState<Record<string, string | null>>({});
+  const selectedConversationRef = useRef<string | null>(null);
+  // Realtime handlers outlive the render that subscribed them, which still saw the notification
+  // permission from before requestPermission() resolved
+  const sendNotificationRef = useRef(sendNotification);
+
+  useEffect(() => {
+    sendNotificationRef.current = sendNotification;
+  }, [sendNotification]);
 
   useEffect(() => {
     if (user) {
       fetchUserProfile();
       fetchConversations();
+      const unsubscribeConversationList = subscribeToConversationList();
       updateUserPresence();
       subscribeToPresence();
       subscribeToCalls();
       requestPermission(); // Request notification permission on load
+      return unsubscribeConversationList;
     }
   }, [user]);
 
   useEffect(() => {
+    selectedConversationRef.current = selectedConversation;
+    closeThread();
+    setReplyingTo(null);
+    setQuotedMessages({});
+    setMessages([]);
+    setHasOlderMessages(false);
+    setShowJumpToLatest(false);
+    setNewMessagesBelow(0);
+    setReadCursors({});
+    setPinnedMessages([]);
+    setCanManagePins(false);
+    setShowPinnedList(false);
+    setScheduledMessages([]);
+    setShowScheduledList(false);
+    setMessageTtl(null);
+    setStarredMessageIds(new Set());
+    clearPendingAttachments();
+    lastMessageIdRef.current = null;
+    isNearBottomRef.current = true;
     if (selectedConversation) {
+      setConversations(prev => prev.map(c => (c.id === selectedConversation ? { ...c, unread_count: 0 } : c)));
       fetchMessages();
       const subscription = subscribeToMessages();
       subscribeToTyping();
-      markMessagesAsSeen();
+      fetchReadCursors();
+      fetchPinnedMessages();
+      fetchPinPermission();
+      fetchScheduledMessages();
+      fetchMessageTtl();
+      fetchStarredMessageIds();
+      markConversationRead();
       return () => {
         subscription.unsubscribe();
         if (typingChannelRef.current) {
@@ -123,9 +341,62 @@ const Chat = () => {
     }
   }, [selectedConversation]);
 
+  // Send whatever was queued while offline, now and whenever connectivity returns
   useEffect(() => {
-    scrollToBottom();
+    if (!user) return;
+    flushOutbox();
+    window.addEventListener('online', flushOutbox);
+    return () => window.removeEventListener('online', flushOutbox);
+  }, [user]);
+
+  // Catch up on messages that arrived while the tab was in the background
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (!document.hidden) markConversationRead();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [selectedConversation, user]);
+
+  useLayoutEffect(() => {
+    const viewport = getScrollViewport();
+    // Keep the reader's position when an older page is prepended
+    if (scrollRestoreRef.current && viewport) {
+      const { scrollHeight, scrollTop } = scrollRestoreRef.current;
+      viewport.scrollTop = viewport.scrollHeight - scrollHeight + scrollTop;
+      scrollRestoreRef.current = null;
+      return;
+    }
+    if (pendingJumpRef.current && messageRefs.current.has(pendingJumpRef.current)) {
+      highlightMessage(pendingJumpRef.current);
+      pendingJumpRef.current = null;
+      lastMessageIdRef.current = messages[messages.length - 1]?.id ?? null;
+      return;
+    }
+    const lastMessage = messages[messages.length - 1];
+    if (!lastMessage || lastMessage.id === lastMessageIdRef.current) return;
+    const isInitialLoad = lastMessageIdRef.current === null;
+    lastMessageIdRef.current = lastMessage.id;
+    if (isInitialLoad || isNearBottomRef.current || lastMessage.sender_id === user?.id) {
+      scrollToBottom(isInitialLoad ? 'auto' : 'smooth');
+    } else {
+      setNewMessagesBelow(count => count + 1);
+    }
   }, [messages]);
+
+  useEffect(() => {
+    const viewport = getScrollViewport();
+    if (!viewport) return;
+    const handleScroll = () => {
+      const distanceFromBottom = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight;
+      isNearBottomRef.current = distanceFromBottom < 150;
+      setShowJumpToLatest(distanceFromBottom > 400);
+      if (isNearBottomRef.current) setNewMessagesBelow(0);
+      if (viewport.scrollTop < 100) loadOlderMessages();
+    };
+    viewport.addEventListener('scroll', handleScroll);
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, [selectedConversation, messages, hasOlderMessages]);
   
   const fetchUserProfile = async () => {
     if (!user) return;
@@ -142,8 +413,16 @@ const Chat = () => {
     }
   };
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const getScrollViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLDivElement>('[data-radix-scroll-area-viewport]') ?? null;
+
+  const scrollToBottom = (behavior: ScrollBehavior = 'smooth') => {
+    messagesEndRef.current?.scrollIntoView({ behavior });
+  };
+
+  const jumpToLatest = () => {
+    setNewMessagesBelow(0);
+    scrollToBottom();
   };
 
   const updateUserPresence = async () => {
@@ -223,23 +502,14 @@ const Chat = () => {
   
   const fetchConversations = async () => {
     try {
-      const { data, error } = await supabase
-        .from('conversation_participants')
-        .select(`
-          conversation_id,
-          conversations!inner ( id, name, is_group, created_at )
-        `)
-        .eq('user_id', user?.id);
+      const { data, error } = await supabase.rpc('get_my_conversations');
       if (error) throw error;
-      const convos = data?.map(item => item.conversations).filter(Boolean) || [];
-      const conversationsWithParticipants: Conversation[] = await Promise.all(
-        convos.map(async (conv: any) => {
-          const { data: participantData } = await supabase.from('conversation_participants').select('user_id').eq('conversation_id', conv.id);
-          const userIds = participantData?.map(p => p.user_id) || [];
-          const { data: profilesData } = await supabase.from('profiles').select('id, user_id, username, display_name, avatar_url, last_seen').in('user_id', userIds);
-          return { ...conv, participants: profilesData || [] } as Conversation;
-        })
-      );
+      const conversationsWithParticipants: Conversation[] = (data || []).map(conv => ({
+        ...conv,
+        participants: (conv.participants as unknown as Profile[]) || [],
+        // The open conversation is being read right now
+        unread_count: conv.id === selectedConversationRef.current ? 0 : conv.unread_count,
+      }));
       setConversations(conversationsWithParticipants);
       if (conversationsWithParticipants.length > 0 && !selectedConversation) {
         setSelectedConversation(conversationsWithParticipants[0].id);
@@ -249,253 +519,1475 @@ const Chat = () => {
     }
   };
 
+  const notifyMention = async (message: MessageRow) => {
+    const { data: sender } = await supabase.from('profiles').select('display_name').eq('user_id', message.sender_id).maybeSingle();
+    sendNotificationRef.current(`${sender?.display_name || 'Someone'} mentioned you`, {
+      body: message.content || '',
+      tag: `message-${message.id}`,
+    });
+  };
+
+  // Keeps previews, unread badges and ordering of the sidebar live across all of my conversations
+  const subscribeToConversationList = () => {
+    if (!user) return () => {};
+    const channel = supabase
+      .channel(`conversation-list-${user.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as MessageRow;
+          // The open conversation notifies through its own subscription
+          if (message.sender_id !== user.id && message.mentions?.includes(user.id) && message.conversation_id !== selectedConversationRef.current) {
+            notifyMention(message);
+          }
+          if (message.thread_root_id) return;
+          setConversations(prev => {
+            if (!prev.some(c => c.id === message.conversation_id)) return prev;
+            const isUnread = message.sender_id !== user.id && (message.conversation_id !== selectedConversationRef.current || document.hidden);
+            return prev
+              .map(c => c.id === message.conversation_id ? {
+                ...c,
+                last_message_id: message.id,
+                last_message_preview: getMessagePreview(message.message_type, message.content),
+                last_message_sender_id: message.sender_id,
+                last_message_at: message.created_at,
+                unread_count: isUnread ? (c.unread_count || 0) + 1 : c.unread_count,
+              } : c)
+              .sort((a, b) => getConversationActivity(b) - getConversationActivity(a));
+          });
+        }
+      )
+      // A last message was deleted for everyone
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as MessageRow;
+          if (!message.deleted_at) return;
+          setConversations(prev => prev.map(c => (c.last_message_id === message.id ? { ...c, last_message_preview: 'This message was deleted' } : c)));
+        }
+      )
+      // Someone started a conversation with me
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'conversation_participants', filter: `user_id=eq.${user.id}`},
+        () => {
+          fetchConversations();
+        }
+      )
+      // My read cursor moved (possibly from another device)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'conversation_participants', filter: `user_id=eq.${user.id}`},
+        (payload) => {
+          const participant = payload.new as Tables<'conversation_participants'>;
+          setConversations(prev => prev.map(c => (c.id === participant.conversation_id ? { ...c, unread_count: 0 } : c)));
+        }
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  };
+
   const fetchMessages = async () => {
     if (!selectedConversation) return;
     try {
-      const { data: messagesData, error } = await supabase.from('messages').select('*').eq('conversation_id', selectedConversation).order('created_at', { ascending: true });
+      // Thread replies live in the thread panel, so the main list only loads top-level messages
+      const { data: messagesData, error } = await fetchMessagePage(selectedConversation);
       if (error) throw error;
-      const senderIds = [...new Set(messagesData?.map(m => m.sender_id) || [])];
-      const { data: profilesData } = await supabase.from('profiles').select('user_id, display_name, avatar_url').in('user_id', senderIds);
-      const messagesWithProfiles = messagesData?.map(message => ({ 
-        ...message, 
-        message_type: message.message_type as 'text' | 'image' | 'call_info', 
-        reactions: (message.reactions as { emoji: string; user_id: string }[] | null) || [],
-        seen_by: (message.seen_by as string[] | null) || [],
-        sender_profile: profilesData?.find(p => p.user_id === message.sender_id) 
-      })) || [];
-      setMessages(messagesWithProfiles as Message[]);
+      const loadedMessages = (messagesData || []).reverse().map(row => toMessage(row));
+      // Realtime INSERTs may have landed while the page was loading
+      setMessages(prev => mergeMessages(prev, loadedMessages));
+      setHasOlderMessages(loadedMessages.length === MESSAGES_PAGE_SIZE);
+      loadMissingQuotedMessages(loadedMessages);
+      openPendingSearchTarget(loadedMessages);
+      loadOutboxMessages(selectedConversation);
     } catch (error: any) {
       console.error("Error loading messages:", error.message);
     }
   };
-  
-  // ----- Typing indicator functions -----
-  const subscribeToTyping = () => {
-    if (!selectedConversation || !user || !userProfile) return;
-    
-    typingChannelRef.current = supabase.channel(`typing-${selectedConversation}`);
-    
-    typingChannelRef.current
-      .on('broadcast', { event: 'typing' }, ({ payload }: { payload: { user_id: string; display_name: string; is_typing: boolean } }) => {
-        if (payload.user_id !== user.id) {
-          setTypingUsers(prev => {
-            const newMap = new Map(prev);
-            if (payload.is_typing) {
-              newMap.set(payload.user_id, { user_id: payload.user_id, display_name: payload.display_name });
-            } else {
-              newMap.delete(payload.user_id);
-            }
-            return newMap;
-          });
-        }
-      })
-      .subscribe();
-  };
 
-  const sendTypingIndicator = useCallback((isTyping: boolean) => {
-    if (!selectedConversation || !user || !userProfile) return;
-    
-    const channel = supabase.channel(`typing-${selectedConversation}`);
-    channel.send({
-      type: 'broadcast',
-      event: 'typing',
-      payload: { user_id: user.id, display_name: userProfile.display_name, is_typing: isTyping }
-    });
-  }, [selectedConversation, user, userProfile]);
+  const loadOlderMessages = async () => {
+    if (!selectedConversation || !hasOlderMessages || isLoadingOlderRef.current || messages.length === 0) return;
+    isLoadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const { data, error } = await fetchMessagePage(selectedConversation, messages[0]);
+      if (error) throw error;
+      const olderMessages = (data || []).reverse().map(row => toMessage(row));
+      const viewport = getScrollViewport();
+      if (viewport && olderMessages.length > 0) {
+        scrollRestoreRef.current = { scrollHeight: viewport.scrollHeight, scrollTop: viewport.scrollTop };
+      }
+      setMessages(prev => mergeMessages(prev, olderMessages));
+      setHasOlderMessages(olderMessages.length === MESSAGES_PAGE_SIZE);
+      loadMissingQuotedMessages(olderMessages);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      isLoadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setNewMessage(e.target.value);
-    
-    // Send typing indicator
-    sendTypingIndicator(true);
-    
-    // Clear previous timeout
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
+  // ----- Quoted replies -----
+  const loadQuotedMessages = async (ids: string[]) => {
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.length === 0) return;
+    try {
+      const { data, error } = await supabase.from('messages').select(MESSAGE_SELECT).in('id', uniqueIds);
+      if (error) throw error;
+      const found = (data || []).map(row => toMessage(row));
+      setQuotedMessages(prev => {
+        const next = { ...prev };
+        uniqueIds.forEach(id => {
+          next[id] = found.find(m => m.id === id) ?? null;
+        });
+        return next;
+      });
+    } catch (error) {
+      console.error('Error loading quoted messages:', error);
     }
-    
-    // Set timeout to stop typing indicator after 2 seconds of no typing
-    typingTimeoutRef.current = setTimeout(() => {
-      sendTypingIndicator(false);
+  };
+
+  // Quoted originals that are not part of the given batch are fetched separately
+  const loadMissingQuotedMessages = (batch: Message[]) => {
+    const missingIds = batch
+      .map(m => m.quoted_message_id)
+      .filter((id): id is string => !!id && !batch.some(m => m.id === id));
+    loadQuotedMessages(missingIds);
+  };
+
+  const resolveQuotedMessage = (id: string) => messages.find(m => m.id === id) ?? quotedMessages[id];
+
+  const markQuotedMessageDeleted = (id: string) => {
+    setQuotedMessages(prev => ({ ...prev, [id]: null }));
+  };
+
+  const highlightMessage = (messageId: string) => {
+    const element = messageRefs.current.get(messageId);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => {
+      setHighlightedMessageId(prev => (prev === messageId ? null : prev));
     }, 2000);
   };
 
-  // ----- Mark messages as seen -----
-  const markMessagesAsSeen = async () => {
+  const jumpToMessage = async (messageId: string, oldestLoaded: Message | undefined = messages[0]) => {
+    if (messageRefs.current.has(messageId)) {
+      highlightMessage(messageId);
+      return;
+    }
+    if (!selectedConversation) return;
+    // The message is older than the loaded window: load everything between it and the oldest loaded message
+    try {
+      const { data: target, error: targetError } = await supabase.from('messages').select('id, created_at, thread_root_id').eq('id', messageId).maybeSingle();
+      if (targetError) throw targetError;
+      if (!target || target.thread_root_id) return;
+      let query = supabase.from('messages').select(MESSAGE_SELECT).eq('conversation_id', selectedConversation).is('thread_root_id', null).gte('created_at', target.created_at);
+      if (oldestLoaded) query = query.lte('created_at', oldestLoaded.created_at);
+      const { data, error } = await query.order('created_at', { ascending: true });
+      if (error) throw error;
+      const gapMessages = (data || []).map(row => toMessage(row));
+      pendingJumpRef.current = messageId;
+      setMessages(prev => mergeMessages(prev, gapMessages));
+      loadMissingQuotedMessages(gapMessages);
+    } catch (error) {
+      console.error('Error jumping to message:', error);
+    }
+  };
+
+  const handleSwipeStart = (e: React.TouchEvent) => {
+    swipeStartXRef.current = e.touches[0].clientX;
+  };
+
+  const handleSwipeEnd = (e: React.TouchEvent, message: Message) => {
+    if (swipeStartXRef.current === null) return;
+    const deltaX = e.changedTouches[0].clientX - swipeStartXRef.current;
+    swipeStartXRef.current = null;
+    // Swipe right to reply, like WhatsApp
+    if (deltaX > 60 && message.message_type !== 'call_info' && message.message_type !== 'system' && !message.deleted_at && !message.send_status) {
+      setReplyingTo(message);
+    }
+  };
+
+  // ----- Message search -----
+  const openMessageTarget = (result: MessageTarget) => {
+    // Hits inside a thread scroll to the root and open the thread panel
+    pendingJumpRef.current = result.thread_root_id ?? result.message_id;
+    pendingThreadRootRef.current = result.thread_root_id;
+    if (result.conversation_id === selectedConversation) {
+      openPendingSearchTarget(messages);
+    } else {
+      setSelectedConversation(result.conversation_id);
+    }
+  };
+
+  // Called once the target conversation's latest page is in place
+  const openPendingSearchTarget = (loadedMessages: Message[]) => {
+    const targetId = pendingJumpRef.current;
+    if (targetId && !loadedMessages.some(m => m.id === targetId)) {
+      jumpToMessage(targetId, loadedMessages[0]);
+    } else if (targetId && messageRefs.current.has(targetId)) {
+      pendingJumpRef.current = null;
+      highlightMessage(targetId);
+    }
+    if (pendingThreadRootRef.current) {
+      openThread(pendingThreadRootRef.current);
+      pendingThreadRootRef.current = null;
+    }
+  };
+
+  // ----- Pinned messages -----
+  const fetchPinnedMessages = async () => {
+    if (!selectedConversation) return;
+    const conversationId = selectedConversation;
+    try {
+      const { data, error } = await supabase
+        .from('pinned_messages')
+        .select('id, message_id, pinned_by, pinned_at, message:messages(sender_id, message_type, content)')
+        .eq('conversation_id', conversationId)
+        .order('pinned_at', { ascending: false });
+      if (error) throw error;
+      if (selectedConversationRef.current !== conversationId) return;
+      // Pins of messages I deleted for myself come back without their message
+      setPinnedMessages((data || []).filter(pin => pin.message).map(pin => ({
+        id: pin.id,
+        message_id: pin.message_id,
+        pinned_by: pin.pinned_by,
+        pinned_at: pin.pinned_at,
+        sender_id: pin.message!.sender_id,
+        preview: getMessagePreview(pin.message!.message_type, pin.message!.content),
+      })));
+    } catch (error) {
+      console.error('Error loading pinned messages:', error);
+    }
+  };
+
+  const fetchPinPermission = async () => {
     if (!selectedConversation || !user) return;
-    
+    const conversationId = selectedConversation;
     try {
-      // Get unread messages not sent by current user
-      const { data: unreadMessages } = await supabase
-        .from('messages')
-        .select('id, seen_by')
-        .eq('conversation_id', selectedConversation)
-        .neq('sender_id', user.id);
-      
-      if (!unreadMessages) return;
-      
-      // Update each message to include current user in seen_by
-      for (const msg of unreadMessages) {
-        const currentSeenBy = (msg.seen_by as string[] | null) || [];
-        if (!currentSeenBy.includes(user.id)) {
-          await supabase
+      const { data, error } = await supabase.rpc('can_manage_pins', { conversation_uuid: conversationId, user_uuid: user.id });
+      if (error) throw error;
+      if (selectedConversationRef.current === conversationId) setCanManagePins(!!data);
+    } catch (error) {
+      console.error('Error checking pin permission:', error);
+    }
+  };
+
+  const pinMessage = async (message: Message) => {
+    if (!user) return;
+    if (pinnedMessages.length >= PINNED_MESSAGES_LIMIT) {
+      toast({
+        title: "Too many pinned messages",
+        description: `Unpin a message first, a conversation can have up to ${PINNED_MESSAGES_LIMIT} pins.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    try {
+      const { error } = await supabase
+        .from('pinned_messages')
+        .insert({ message_id: message.id, conversation_id: message.conversation_id, pinned_by: user.id });
+      if (error) throw error;
+      fetchPinnedMessages();
+    } catch (error) {
+      console.error('Error pinning message:', error);
+    }
+  };
+
+  const unpinMessage = async (messageId: string) => {
+    const pin = pinnedMessages.find(p => p.message_id === messageId);
+    if (!pin) return;
+    try {
+      const { error } = await supabase.from('pinned_messages').delete().eq('id', pin.id);
+      if (error) throw error;
+      setPinnedMessages(prev => prev.filter(p => p.id !== pin.id));
+    } catch (error) {
+      console.error('Error unpinning message:', error);
+    }
+  };
+
+  const jumpToPin = (pin: PinnedMessage) => {
+    setShowPinnedList(false);
+    jumpToMessage(pin.message_id);
+  };
+
+  const getParticipantName = (userId: string) =>
+    getCurrentConversation()?.participants?.find(p => p.user_id === userId)?.display_name || 'Unknown User';
+
+  // ----- Scheduled messages -----
+  const sortScheduledMessages = (list: Tables<'scheduled_messages'>[]) =>
+    [...list].sort((a, b) => new Date(a.scheduled_for).getTime() - new Date(b.scheduled_for).getTime());
+
+  const upsertScheduledMessage = (scheduled: Tables<'scheduled_messages'>) => {
+    setScheduledMessages(prev => sortScheduledMessages([...prev.filter(m => m.id !== scheduled.id), scheduled]));
+  };
+
+  const fetchScheduledMessages = async () => {
+    if (!selectedConversation || !user) return;
+    const conversationId = selectedConversation;
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .eq('sender_id', user.id)
+        .order('scheduled_for', { ascending: true });
+      if (error) throw error;
+      if (selectedConversationRef.current === conversationId) setScheduledMessages(data || []);
+    } catch (error) {
+      console.error('Error loading scheduled messages:', error);
+    }
+  };
+
+  const scheduleMessage = async (scheduledFor: Date) => {
+    if (!newMessage.trim() || !selectedConversation || !user) return false;
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .insert({
+          conversation_id: selectedConversation,
+          sender_id: user.id,
+          content: newMessage,
+          mentions: extractMentionedUserIds(newMessage, getMentionableParticipants()),
+          scheduled_for: scheduledFor.toISOString(),
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      upsertScheduledMessage(data);
+      sendTypingIndicator(false);
+      setNewMessage('');
+      setShowPreview(false);
+      setMentionQuery(null);
+      toast({ title: "Message scheduled", description: `It will be sent ${formatScheduleTime(data.scheduled_for)}` });
+      return true;
+    } catch (error) {
+      console.error('Error scheduling message:', error);
+      return false;
+    }
+  };
+
+  const updateScheduledMessage = async (id: string, content: string, scheduledFor: Date) => {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .update({
+          content,
+          mentions: extractMentionedUserIds(content, getMentionableParticipants()),
+          scheduled_for: scheduledFor.toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      // No row means it was delivered while being edited
+      if (!data) {
+        setScheduledMessages(prev => prev.filter(m => m.id !== id));
+        return false;
+      }
+      upsertScheduledMessage(data);
+      return true;
+    } catch (error) {
+      console.error('Error updating scheduled message:', error);
+      return false;
+    }
+  };
+
+  const cancelScheduledMessage = async (id: string) => {
+    try {
+      const { error } = await supabase.from('scheduled_messages').delete().eq('id', id);
+      if (error) throw error;
+      setScheduledMessages(prev => prev.filter(m => m.id !== id));
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error);
+    }
+  };
+
+  // ----- Starred messages -----
+  const fetchStarredMessageIds = async () => {
+    if (!selectedConversation) return;
+    const conversationId = selectedConversation;
+    try {
+      const { data, error } = await supabase.from('starred_messages').select('message_id').eq('conversation_id', conversationId);
+      if (error) throw error;
+      if (selectedConversationRef.current === conversationId) setStarredMessageIds(new Set((data || []).map(s => s.message_id)));
+    } catch (error) {
+      console.error('Error loading starred messages:', error);
+    }
+  };
+
+  const removeStarredId = (messageId: string) => {
+    setStarredMessageIds(prev => {
+      if (!prev.has(messageId)) return prev;
+      const next = new Set(prev);
+      next.delete(messageId);
+      return next;
+    });
+  };
+
+  const starMessage = async (message: Message) => {
+    if (!user) return;
+    try {
+      const { error } = await supabase
+        .from('starred_messages')
+        .insert({ message_id: message.id, user_id: user.id, conversation_id: message.conversation_id });
+      if (error) throw error;
+      setStarredMessageIds(prev => new Set(prev).add(message.id));
+    } catch (error) {
+      console.error('Error starring message:', error);
+    }
+  };
+
+  const unstarMessage = async (messageId: string) => {
+    if (!user) return false;
+    try {
+      const { error } = await supabase.from('starred_messages').delete().eq('user_id', user.id).eq('message_id', messageId);
+      if (error) throw error;
+      removeStarredId(messageId);
+      return true;
+    } catch (error) {
+      console.error('Error unstarring message:', error);
+      return false;
+    }
+  };
+
+  // ----- Disappearing messages -----
+  const fetchMessageTtl = async () => {
+    if (!selectedConversation) return;
+    const conversationId = selectedConversation;
+    try {
+      const { data, error } = await supabase.from('conversations').select('message_ttl_seconds').eq('id', conversationId).single();
+      if (error) throw error;
+      if (selectedConversationRef.current === conversationId) setMessageTtl(data.message_ttl_seconds);
+    } catch (error) {
+      console.error('Error loading disappearing messages setting:', error);
+    }
+  };
+
+  // The server posts the "turned on disappearing messages" notice, which arrives over realtime
+  const changeMessageTtl = async (ttlSeconds: number | null) => {
+    if (!selectedConversation || ttlSeconds === messageTtl) return;
+    try {
+      const { error } = await supabase.rpc('set_message_ttl', { conversation_uuid: selectedConversation, ttl_seconds: ttlSeconds });
+      if (error) throw error;
+      setMessageTtl(ttlSeconds);
+    } catch (error) {
+      console.error('Error changing disappearing messages setting:', error);
+    }
+  };
+
+  // ----- Polls -----
+  // Polls only appear in the main message list, create_poll() never posts into threads
+  const updateMessagePoll = (messageId: string, update: (poll: Poll) => Poll) => {
+    setMessages(prev => prev.map(m => (m.id === messageId && m.poll ? { ...m, poll: update(m.poll) } : m)));
+  };
+
+  const fetchPoll = async (messageId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('polls')
+        .select('*, options:poll_options(id, position, label, vote_count), votes:poll_votes(option_id, user_id)')
+        .eq('message_id', messageId)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? toPoll(data) : null;
+    } catch (error) {
+      console.error('Error loading poll:', error);
+      return null;
+    }
+  };
+
+  // The poll message itself arrives over realtime like any other message
+  const createPoll = async (draft: PollDraft) => {
+    if (!selectedConversation) return false;
+    try {
+      const { error } = await supabase.rpc('create_poll', {
+        conversation_uuid: selectedConversation,
+        question: draft.question,
+        options: draft.options,
+        allows_multiple: draft.allows_multiple,
+        is_anonymous: draft.is_anonymous,
+        closes_at: draft.closes_at?.toISOString()
+      });
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error creating poll:', error);
+      toast({
+        title: "Couldn't create poll",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // Reload the whole poll afterwards so my votes and the totals are consistent right away
+  const votePoll = async (messageId: string, optionIds: string[]) => {
+    try {
+      const { error } = await supabase.rpc('vote_in_poll', { poll_message_uuid: messageId, option_uuids: optionIds });
+      if (error) throw error;
+      const poll = await fetchPoll(messageId);
+      if (poll) updateMessagePoll(messageId, () => poll);
+      return true;
+    } catch (error) {
+      console.error('Error voting in poll:', error);
+      toast({
+        title: "Couldn't save your vote",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const closePoll = async (messageId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('close_poll', { poll_message_uuid: messageId });
+      if (error) throw error;
+      updateMessagePoll(messageId, poll => ({ ...poll, closed_at: data }));
+    } catch (error) {
+      console.error('Error closing poll:', error);
+    }
+  };
+
+  // ----- Attachments -----
+  const fetchAttachments = async (messageId: string) => {
+    try {
+      const { data, error } = await supabase.from('message_attachments').select('id, position, file_name, mime_type, size_bytes, storage_path, width, height, thumbnail').eq('message_id', messageId);
+      if (error) throw error;
+      return sortAttachments(data || []);
+    } catch (error) {
+      console.error('Error loading attachments:', error);
+      return [];
+    }
+  };
+
+  // ----- Voice notes -----
+  const addVoiceNotePlay = (messageId: string, userId: string) => {
+    setMessages(prev => prev.map(m =>
+      m.id === messageId && !m.played_by?.includes(userId) ? { ...m, played_by: [...(m.played_by || []), userId] } : m
+    ));
+  };
+
+  // Recipients mark a voice note as played the first time they start it
+  const markVoiceNotePlayed = async (message: Message) => {
+    if (!user || message.sender_id === user.id || message.send_status || message.played_by?.includes(user.id)) return;
+    addVoiceNotePlay(message.id, user.id);
+    try {
+      const { error } = await supabase
+        .from('voice_note_plays')
+        .upsert({ message_id: message.id, user_id: user.id, conversation_id: message.conversation_id }, { onConflict: 'message_id,user_id', ignoreDuplicates: true });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking voice message as played:', error);
+    }
+  };
+
+  // ----- Threads -----
+  const openThread = async (rootMessageId: string) => {
+    threadRootIdRef.current = rootMessageId;
+    setThreadRootId(rootMessageId);
+    setThreadReplies([]);
+    setIsThreadLoading(true);
+    try {
+      const { data, error } = await supabase.from('messages').select(MESSAGE_SELECT).eq('thread_root_id', rootMessageId).order('created_at', { ascending: true });
+      if (error) throw error;
+      const replies = (data || []).map(row => toMessage(row));
+      // Ignore the result if another thread was opened while this one was loading
+      if (threadRootIdRef.current !== rootMessageId) return;
+      setThreadReplies(prev => [...replies, ...prev.filter(r => !replies.some(loaded => loaded.id === r.id))]);
+    } catch (error) {
+      console.error('Error loading thread replies:', error);
+    } finally {
+      setIsThreadLoading(false);
+    }
+  };
+
+  const closeThread = () => {
+    threadRootIdRef.current = null;
+    setThreadRootId(null);
+    setThreadReplies([]);
+  };
+
+  const sendThreadReply = async (content: string) => {
+    if (!threadRootId || !selectedConversation || !user) return false;
+    try {
+      await updateUserPresence();
+      const { error } = await supabase.from('messages').insert({ conversation_id: selectedConversation, sender_id: user.id, content, message_type: 'text', thread_root_id: threadRootId });
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Failed to send thread reply:', error);
+      return false;
+    }
+  };
+  
+  // ----- Typing indicator functions -----
+  const subscribeToTyping = () => {
+    if (!selectedConversation || !user || !userProfile) return;
+    
+    typingChannelRef.current = supabase.channel(`typing-${selectedConversation}`);
+    
+    typingChannelRef.current
+      .on('broadcast', { event: 'typing' }, ({ payload }: { payload: { user_id: string; display_name: string; is_typing: boolean } }) => {
+        if (payload.user_id !== user.id) {
+          setTypingUsers(prev => {
+            const newMap = new Map(prev);
+            if (payload.is_typing) {
+              newMap.set(payload.user_id, { user_id: payload.user_id, display_name: payload.display_name });
+            } else {
+              newMap.delete(payload.user_id);
+            }
+            return newMap;
+          });
+        }
+      })
+      .subscribe();
+  };
+
+  const sendTypingIndicator = useCallback((isTyping: boolean) => {
+    if (!selectedConversation || !user || !userProfile) return;
+    
+    const channel = supabase.channel(`typing-${selectedConversation}`);
+    channel.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: user.id, display_name: userProfile.display_name, is_typing: isTyping }
+    });
+  }, [selectedConversation, user, userProfile]);
+
+  // ----- Mentions -----
+  const getMentionableParticipants = () =>
+    (getCurrentConversation()?.participants || []).filter(p => p.user_id !== user?.id);
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    // Mentions only make sense in group conversations
+    const query = getCurrentConversation()?.is_group ? getMentionQuery(text, caret) : null;
+    setMentionQuery(query);
+    setMentionIndex(0);
+  };
+
+  const mentionCandidates = mentionQuery ? filterMentionCandidates(getMentionableParticipants(), mentionQuery.query) : [];
+
+  const selectMention = (profile: Profile) => {
+    if (!mentionQuery) return;
+    const { text, caret } = insertMention(newMessage, mentionQuery, profile.username);
+    setNewMessage(text);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      composerRef.current?.focus();
+      composerRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionCandidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex(index => (index + step + mentionCandidates.length) % mentionCandidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectMention(mentionCandidates[Math.min(mentionIndex, mentionCandidates.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+    // Enter sends, Shift+Enter starts a new line (needed for code blocks and lists)
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  const getMentionedUsernames = (message: Message) =>
+    (getCurrentConversation()?.participants || [])
+      .filter(p => message.mentions?.includes(p.user_id))
+      .map(p => p.username);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setNewMessage(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+    
+    // Send typing indicator
+    sendTypingIndicator(true);
+    
+    // Clear previous timeout
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    
+    // Set timeout to stop typing indicator after 2 seconds of no typing
+    typingTimeoutRef.current = setTimeout(() => {
+      sendTypingIndicator(false);
+    }, 2000);
+  };
+
+  // ----- Read cursors -----
+  const fetchReadCursors = async () => {
+    if (!selectedConversation) return;
+    try {
+      const { data, error } = await supabase
+        .from('conversation_participants')
+        .select('user_id, last_read_at')
+        .eq('conversation_id', selectedConversation);
+      if (error) throw error;
+      setReadCursors(Object.fromEntries((data || []).map(p => [p.user_id, p.last_read_at])));
+    } catch (error) {
+      console.error('Error loading read cursors:', error);
+    }
+  };
+
+  const markConversationRead = async () => {
+    if (!selectedConversation || !user) return;
+    try {
+      const { error } = await supabase.rpc('mark_conversation_read', { conversation_uuid: selectedConversation });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking conversation as read:', error);
+    }
+  };
+
+  // Participants other than me whose cursor has reached this message
+  const getMessageReaders = (message: Message) => {
+    const sentAt = new Date(message.created_at).getTime();
+    return (getCurrentConversation()?.participants || []).filter(p => {
+      const lastReadAt = readCursors[p.user_id];
+      return p.user_id !== user?.id && !!lastReadAt && new Date(lastReadAt).getTime() >= sentAt;
+    });
+  };
+
+  // ----- Message reactions -----
+  const updateMessageReactions = (messageId: string, update: (reactions: Reaction[]) => Reaction[]) => {
+    const apply = (prevMessages: Message[]) =>
+      prevMessages.map(m => (m.id === messageId ? { ...m, reactions: update(m.reactions || []) } : m));
+    setMessages(apply);
+    setThreadReplies(apply);
+  };
+
+  const removeReactionById = (reactionId: string) => {
+    const apply = (prevMessages: Message[]) =>
+      prevMessages.map(m =>
+        m.reactions?.some(r => r.id === reactionId) ? { ...m, reactions: m.reactions.filter(r => r.id !== reactionId) } : m
+      );
+    setMessages(apply);
+    setThreadReplies(apply);
+  };
+
+  const addReaction = async (messageId: string, emoji: string) => {
+    if (!user) return;
+    
+    try {
+      const message = messages.find(m => m.id === messageId) ?? threadReplies.find(m => m.id === messageId);
+      const existingReaction = message?.reactions?.find(r => r.user_id === user.id && r.emoji === emoji);
+      
+      if (existingReaction) {
+        // Remove reaction if already exists
+        const { error } = await supabase.from('message_reactions').delete().eq('id', existingReaction.id);
+        if (error) throw error;
+        removeReactionById(existingReaction.id);
+      } else {
+        const { data, error } = await supabase
+          .from('message_reactions')
+          .insert({ message_id: messageId, user_id: user.id, emoji })
+          .select('id, emoji, user_id')
+          .single();
+        // 23505: the same reaction was already added (e.g. from another device); realtime delivers it
+        if (error && error.code !== '23505') throw error;
+        if (data) {
+          updateMessageReactions(messageId, reactions => (reactions.some(r => r.id === data.id) ? reactions : [...reactions, data]));
+        }
+      }
+    } catch (error) {
+      console.error('Error toggling reaction:', error);
+    }
+  };
+
+  const subscribeToMessages = () => {
+    return supabase
+      .channel(`messages-${selectedConversation}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter: `conversation_id=eq.${selectedConversation}`},
+        async (payload) => {
+          const newMessagePayload = payload.new as MessageRow;
+          const { data: profileData } = await supabase.from('profiles').select('user_id, display_name, avatar_url').eq('user_id', newMessagePayload.sender_id).maybeSingle();
+          const messageWithProfile = toMessage(newMessagePayload, profileData);
+          // Options and votes live in their own tables, written in the same transaction as the message
+          if (newMessagePayload.message_type === 'poll') {
+            messageWithProfile.poll = await fetchPoll(newMessagePayload.id);
+          }
+          if (newMessagePayload.message_type === 'file' || newMessagePayload.message_type === 'album') {
+            messageWithProfile.attachments = await fetchAttachments(newMessagePayload.id);
+          }
+          // Own messages replace their optimistic bubble, matched by client_id
+          const appendMessage = (prevMessages: Message[]) => upsertDeliveredMessage(prevMessages, messageWithProfile);
+          if (newMessagePayload.thread_root_id) {
+            // Replies only show up in the thread panel; the root's reply_count arrives as an UPDATE
+            if (newMessagePayload.thread_root_id === threadRootIdRef.current) {
+              setThreadReplies(appendMessage);
+            }
+          } else {
+            setMessages(appendMessage);
+            if (newMessagePayload.quoted_message_id) {
+              loadQuotedMessages([newMessagePayload.quoted_message_id]);
+            }
+          }
+          
+          // Messages arriving while the conversation is on screen count as read
+          if (newMessagePayload.sender_id !== user?.id && !document.hidden) {
+            markConversationRead();
+          }
+
+          // Send push notification for new messages from others
+          if (newMessagePayload.sender_id !== user?.id && profileData) {
+            const mentionsMe = !!user && newMessagePayload.mentions?.includes(user.id);
+            sendNotificationRef.current(mentionsMe ? `${profileData.display_name} mentioned you` : `New message from ${profileData.display_name}`, {
+              body: newMessagePayload.content || (newMessagePayload.message_type === 'audio' ? 'Sent a voice message' : newMessagePayload.message_type === 'file' ? 'Sent a file' : newMessagePayload.message_type === 'album' ? 'Sent photos' : 'Sent an image'),
+              tag: `message-${newMessagePayload.id}`
+            });
+          }
+        }
+      )
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages', filter: `conversation_id=eq.${selectedConversation}`},
+        async (payload) => {
+          const updatedMessage = payload.new as MessageRow;
+          const applyUpdate = (prevMessages: Message[]) =>
+            prevMessages.map(msg => 
+              msg.id === updatedMessage.id 
+                ? { 
+                    ...msg, 
+                    content: updatedMessage.content,
+                    image_url: updatedMessage.image_url,
+                    audio_path: updatedMessage.audio_path,
+                    audio_peaks: updatedMessage.audio_peaks,
+                    attachments: updatedMessage.deleted_at ? [] : msg.attachments,
+                    edited_at: updatedMessage.edited_at,
+                    deleted_at: updatedMessage.deleted_at,
+                    link_preview_hidden: updatedMessage.link_preview_hidden,
+                    mentions: updatedMessage.mentions,
+                    reactions: updatedMessage.deleted_at ? [] : msg.reactions,
+                    reply_count: updatedMessage.reply_count,
+                    last_reply_at: updatedMessage.last_reply_at
+                  } 
+                : msg
+            );
+          setMessages(applyUpdate);
+          setThreadReplies(applyUpdate);
+          setQuotedMessages(prev => prev[updatedMessage.id]
+            ? { ...prev, [updatedMessage.id]: { ...prev[updatedMessage.id]!, content: updatedMessage.content, edited_at: updatedMessage.edited_at } }
+            : prev
+          );
+          setPinnedMessages(prev => prev.map(pin => (pin.message_id === updatedMessage.id
+            ? { ...pin, preview: getMessagePreview(updatedMessage.message_type, updatedMessage.content) }
+            : pin
+          )));
+          if (updatedMessage.deleted_at) {
+            markQuotedMessageDeleted(updatedMessage.id);
+            removeStarredId(updatedMessage.id);
+            setReplyingTo(prev => (prev?.id === updatedMessage.id ? null : prev));
+          }
+        }
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'messages', filter: `conversation_id=eq.${selectedConversation}`},
+        async (payload) => {
+          const deletedMessage = payload.old as MessageRow;
+          setMessages(prevMessages => prevMessages.filter(msg => msg.id !== deletedMessage.id));
+          setThreadReplies(prevMessages => prevMessages.filter(msg => msg.id !== deletedMessage.id));
+          markQuotedMessageDeleted(deletedMessage.id);
+          if (deletedMessage.id === threadRootIdRef.current) closeThread();
+        }
+      )
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'message_reactions', filter: `conversation_id=eq.${selectedConversation}`},
+        (payload) => {
+          const reaction = payload.new as Tables<'message_reactions'>;
+          updateMessageReactions(reaction.message_id, reactions =>
+            reactions.some(r => r.id === reaction.id) ? reactions : [...reactions, { id: reaction.id, emoji: reaction.emoji, user_id: reaction.user_id }]
+          );
+        }
+      )
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'conversation_participants', filter: `conversation_id=eq.${selectedConversation}`},
+        (payload) => {
+          const participant = payload.new as Tables<'conversation_participants'>;
+          setReadCursors(prev => ({ ...prev, [participant.user_id]: participant.last_read_at }));
+        }
+      )
+      // DELETE events cannot be filtered and only carry the primary key under RLS, so match on the reaction id
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'message_reactions' },
+        (payload) => {
+          const removedReaction = payload.old as Pick<Tables<'message_reactions'>, 'id'>;
+          removeReactionById(removedReaction.id);
+        }
+      )
+      // The pin row carries no message content, so reload the list to get its preview
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'pinned_messages', filter: `conversation_id=eq.${selectedConversation}`},
+        () => {
+          fetchPinnedMessages();
+        }
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'pinned_messages' },
+        (payload) => {
+          const removedPin = payload.old as Pick<Tables<'pinned_messages'>, 'id'>;
+          setPinnedMessages(prev => prev.filter(p => p.id !== removedPin.id));
+        }
+      )
+      // The disappearing messages timer was changed
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'conversations', filter: `id=eq.${selectedConversation}`},
+        (payload) => {
+          const conversation = payload.new as Tables<'conversations'>;
+          setMessageTtl(conversation.message_ttl_seconds);
+        }
+      )
+      // Scheduled messages are only visible to their sender, so these come from my other devices
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'scheduled_messages', filter: `conversation_id=eq.${selectedConversation}`},
+        (payload) => {
+          upsertScheduledMessage(payload.new as Tables<'scheduled_messages'>);
+        }
+      )
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'scheduled_messages', filter: `conversation_id=eq.${selectedConversation}`},
+        (payload) => {
+          upsertScheduledMessage(payload.new as Tables<'scheduled_messages'>);
+        }
+      )
+      // Delivered or cancelled
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'scheduled_messages' },
+        (payload) => {
+          const removed = payload.old as Pick<Tables<'scheduled_messages'>, 'id'>;
+          setScheduledMessages(prev => prev.filter(m => m.id !== removed.id));
+        }
+      )
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'voice_note_plays', filter: `conversation_id=eq.${selectedConversation}`},
+        (payload) => {
+          const play = payload.new as Tables<'voice_note_plays'>;
+          addVoiceNotePlay(play.message_id, play.user_id);
+        }
+      )
+      // Live poll results: totals per option, voter count and closing
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'poll_options', filter: `conversation_id=eq.${selectedConversation}`},
+        (payload) => {
+          const option = payload.new as Tables<'poll_options'>;
+          updateMessagePoll(option.message_id, poll => ({
+            ...poll,
+            options: poll.options.map(o => (o.id === option.id ? { ...o, vote_count: option.vote_count } : o))
+          }));
+        }
+      )
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'polls', filter: `conversation_id=eq.${selectedConversation}`},
+        (payload) => {
+          const updatedPoll = payload.new as Tables<'polls'>;
+          updateMessagePoll(updatedPoll.message_id, poll => ({ ...poll, voter_count: updatedPoll.voter_count, closed_at: updatedPoll.closed_at }));
+        }
+      )
+      // Only votes I may see arrive here: my own, and everyone's in polls that are not anonymous
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'poll_votes', filter: `conversation_id=eq.${selectedConversation}`},
+        (payload) => {
+          const vote = payload.new as Tables<'poll_votes'>;
+          updateMessagePoll(vote.message_id, poll =>
+            poll.votes.some(v => v.option_id === vote.option_id && v.user_id === vote.user_id)
+              ? poll
+              : { ...poll, votes: [...poll.votes, { option_id: vote.option_id, user_id: vote.user_id }] }
+          );
+        }
+      )
+      // DELETE carries only the primary key, which is (option_id, user_id)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'poll_votes' },
+        (payload) => {
+          const removedVote = payload.old as PollVote;
+          setMessages(prev => prev.map(m =>
+            m.poll?.votes.some(v => v.option_id === removedVote.option_id && v.user_id === removedVote.user_id)
+              ? { ...m, poll: { ...m.poll, votes: m.poll.votes.filter(v => !(v.option_id === removedVote.option_id && v.user_id === removedVote.user_id)) } }
+              : m
+          ));
+        }
+      )
+      .subscribe();
+  };
+  
+  // ----- Message editing -----
+  const startEditMessage = (message: Message) => {
+    setEditingMessage(message);
+    setEditContent(message.content || '');
+  };
+  
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setEditContent('');
+  };
+  
+  const saveEditMessage = async () => {
+    if (!editingMessage || !editContent.trim()) return;
+    
+    // Unchanged content would not create a history entry, so there is nothing to save
+    if (editContent.trim() === editingMessage.content) {
+      cancelEdit();
+      return;
+    }
+    
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .update({ content: editContent.trim(), mentions: extractMentionedUserIds(editContent, getMentionableParticipants()) })
+        .eq('id', editingMessage.id)
+        .select('content, edited_at, mentions')
+        .single();
+      
+      if (error) throw error;
+      
+      const applyEdit = (prev: Message[]) => prev.map(msg => 
+        msg.id === editingMessage.id ? { ...msg, content: data.content, edited_at: data.edited_at, mentions: data.mentions } : msg
+      );
+      setMessages(applyEdit);
+      setThreadReplies(applyEdit);
+      cancelEdit();
+    } catch (error) {
+      console.error('Error editing message:', error);
+    }
+  };
+  
+  // ----- Link previews -----
+  // First link of each delivered text message, parsed once per messages update
+  const previewLinks = useMemo(() => {
+    const links = new Map<string, string>();
+    messages.forEach(message => {
+      if (message.message_type !== 'text' || !message.content || message.deleted_at || message.send_status) return;
+      const link = findFirstLink(parseMarkdown(message.content));
+      if (link) links.set(message.id, link);
+    });
+    return links;
+  }, [messages]);
+
+  const hideLinkPreview = async (message: Message) => {
+    try {
+      const { error } = await supabase
+        .from('messages')
+        .update({ link_preview_hidden: true })
+        .eq('id', message.id);
+      if (error) throw error;
+      setMessages(prev => prev.map(msg => (msg.id === message.id ? { ...msg, link_preview_hidden: true } : msg)));
+    } catch (error) {
+      console.error('Error removing link preview:', error);
+    }
+  };
+  
+  // ----- Lightbox -----
+  // Every photo of the loaded messages, oldest first, for swiping through in the lightbox
+  const lightboxImages = useMemo(() => messages.flatMap((message): LightboxImage[] => {
+    if (message.deleted_at) return [];
+    const base = {
+      message_id: message.id,
+      sender_name: message.sender_profile?.display_name,
+      created_at: message.created_at,
+    };
+    if (message.message_type === 'image' && message.image_url) {
+      const isPreview = message.image_url.startsWith('blob:');
+      const path = isPreview ? null : getChatImagePath(message.image_url);
+      return [{
+        ...base,
+        id: message.id,
+        bucket: 'chat-images',
+        storage_path: path,
+        preview_url: isPreview ? message.image_url : null,
+        file_name: path?.split('/').pop() || 'photo.jpg',
+        can_forward: !message.send_status,
+      }];
+    }
+    if (message.message_type === 'album') {
+      return (message.attachments || []).map(attachment => ({
+        ...base,
+        id: `${message.id}:${attachment.position}`,
+        bucket: 'chat-files',
+        storage_path: attachment.storage_path || null,
+        preview_url: attachment.preview_url,
+        file_name: attachment.file_name,
+        can_forward: false,
+      }));
+    }
+    return [];
+  }), [messages]);
+
+  const forwardFromLightbox = (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message) return;
+    setLightboxImageId(null);
+    setMessageToForward(message);
+  };
+
+  const jumpFromLightbox = (messageId: string) => {
+    setLightboxImageId(null);
+    jumpToMessage(messageId);
+  };
+
+  // ----- Forwarding -----
+  const forwardMessage = async (conversationIds: string[]) => {
+    if (!messageToForward) return false;
+    try {
+      const { error } = await supabase.rpc('forward_message', { message_uuid: messageToForward.id, conversation_uuids: conversationIds });
+      if (error) throw error;
+      toast({
+        title: "Message forwarded",
+        description: conversationIds.length === 1 ? 'Sent to 1 conversation' : `Sent to ${conversationIds.length} conversations`
+      });
+      return true;
+    } catch (error) {
+      console.error('Error forwarding message:', error);
+      return false;
+    }
+  };
+
+  // ----- Message deletion -----
+  // 'everyone' leaves a tombstone for all participants and removes the attachment;
+  // 'me' only hides the message from the current user
+  const confirmDeleteMessage = async (mode: 'everyone' | 'me') => {
+    if (!messageToDelete || !user) return;
+    const message = messageToDelete;
+    
+    try {
+      if (mode === 'everyone') {
+        const { data: deletedAt, error } = await supabase.rpc('delete_message_for_everyone', { message_uuid: message.id });
+        if (error) throw error;
+        
+        const applyDelete = (prev: Message[]) => prev.map(msg => 
+          msg.id === message.id ? { ...msg, content: null, image_url: null, audio_path: null, audio_peaks: null, attachments: [], deleted_at: deletedAt, reactions: [] } : msg
+        );
+        setMessages(applyDelete);
+        setThreadReplies(applyDelete);
+        setConversations(prev => prev.map(c => (c.last_message_id === message.id ? { ...c, last_message_preview: 'This message was deleted' } : c)));
+        
+        // Forwarded copies keep referencing the same object, so it is only removed once unused
+        const imagePath = message.image_url ? getChatImagePath(message.image_url) : null;
+        if (imagePath) {
+          const { data: inUse, error: inUseError } = await supabase.rpc('chat_image_in_use', { image_path: imagePath });
+          if (inUseError) {
+            console.error('Error checking attachment usage:', inUseError);
+          } else if (!inUse) {
+            const { error: storageError } = await supabase.storage.from('chat-images').remove([imagePath]);
+            if (storageError) console.error('Error removing attachment:', storageError);
+          }
+        }
+        // Voice notes and files cannot be forwarded, so their objects are never shared
+        if (message.audio_path) {
+          const { error: storageError } = await supabase.storage.from('voice-notes').remove([message.audio_path]);
+          if (storageError) console.error('Error removing voice message:', storageError);
+        }
+        const attachmentPaths = (message.attachments || []).map(a => a.storage_path).filter(Boolean);
+        if (attachmentPaths.length > 0) {
+          const { error: storageError } = await supabase.storage.from('chat-files').remove(attachmentPaths);
+          if (storageError) console.error('Error removing attachments:', storageError);
+        }
+      } else {
+        const { error } = await supabase
+          .from('hidden_messages')
+          .insert({ message_id: message.id, user_id: user.id, conversation_id: message.conversation_id });
+        if (error) throw error;
+        
+        setMessages(prev => prev.filter(msg => msg.id !== message.id));
+        setThreadReplies(prev => prev.filter(msg => msg.id !== message.id));
+        setPinnedMessages(prev => prev.filter(p => p.message_id !== message.id));
+        removeStarredId(message.id);
+        if (message.id === threadRootId) closeThread();
+        if (conversations.some(c => c.last_message_id === message.id)) fetchConversations();
+      }
+      
+      markQuotedMessageDeleted(message.id);
+      if (message.id === replyingTo?.id) setReplyingTo(null);
+      if (message.id === editingMessage?.id) cancelEdit();
+      setMessageToDelete(null);
+    } catch (error) {
+      console.error('Error deleting message:', error);
+    }
+  };
+  
+  // ----- Outbox -----
+  // Object URLs for files that are still waiting to be uploaded, keyed by client_id, or by
+  // client_id:index for album photos
+  const getPreviewUrl = (key: string, file?: Blob) => {
+    if (!file) return null;
+    let url = previewUrlsRef.current.get(key);
+    if (!url) {
+      url = URL.createObjectURL(file);
+      previewUrlsRef.current.set(key, url);
+    }
+    return url;
+  };
+
+  const releasePreviewUrl = (clientId: string) => {
+    previewUrlsRef.current.forEach((url, key) => {
+      if (key !== clientId && !key.startsWith(`${clientId}:`)) return;
+      URL.revokeObjectURL(url);
+      previewUrlsRef.current.delete(key);
+    });
+  };
+
+  const setFileUploadProgress = (clientId: string, index: number, fraction: number) => {
+    setUploadProgress(prev => {
+      const fractions = [...(prev[clientId] || [])];
+      fractions[index] = fraction;
+      return { ...prev, [clientId]: fractions };
+    });
+  };
+
+  const clearUploadProgress = (clientId: string) => {
+    setUploadProgress(prev => {
+      if (!(clientId in prev)) return prev;
+      const { [clientId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Share of a message's uploads that is done, or undefined when none is running
+  const getUploadFraction = (message: Message) => {
+    const fractions = message.client_id ? uploadProgress[message.client_id] : undefined;
+    if (!fractions) return undefined;
+    const count = Math.max(1, message.attachments?.length ?? 0);
+    return Array.from({ length: count }, (_, index) => fractions[index] ?? 0).reduce((sum, fraction) => sum + fraction, 0) / count;
+  };
+
+  const toOptimisticAttachments = (item: OutboxItem): Attachment[] => {
+    if (item.message_type === 'album') {
+      return (item.album || []).map((photo, index) => ({
+        id: `${item.client_id}:${index}`,
+        position: index,
+        file_name: photo.file_name,
+        mime_type: getAttachmentMimeType(photo.file),
+        size_bytes: photo.file.size,
+        storage_path: '',
+        width: photo.width,
+        height: photo.height,
+        thumbnail: photo.thumbnail,
+        preview_url: getPreviewUrl(`${item.client_id}:${index}`, photo.file) ?? undefined,
+      }));
+    }
+    if (item.message_type === 'file' && item.file) {
+      return [{ id: item.client_id, position: 0, file_name: item.file_name || 'file', mime_type: getAttachmentMimeType(item.file), size_bytes: item.file.size, storage_path: '' }];
+    }
+    return [];
+  };
+
+  const toOptimisticMessage = (item: OutboxItem): Message => ({
+    id: item.client_id,
+    client_id: item.client_id,
+    conversation_id: item.conversation_id,
+    sender_id: item.user_id,
+    content: item.content,
+    image_url: item.message_type === 'image' ? getPreviewUrl(item.client_id, item.file) : null,
+    audio_preview_url: item.message_type === 'audio' ? getPreviewUrl(item.client_id, item.file) : null,
+    audio_duration_ms: item.audio_duration_ms ?? null,
+    audio_peaks: item.audio_peaks ?? null,
+    attachments: toOptimisticAttachments(item),
+    message_type: item.message_type,
+    created_at: item.created_at,
+    quoted_message_id: item.quoted_message_id,
+    mentions: item.mentions,
+    reactions: [],
+    send_status: item.status,
+    sender_profile: userProfile ? { display_name: userProfile.display_name, avatar_url: userProfile.avatar_url } : undefined,
+  });
+
+  const setSendStatus = (clientId: string, status: SendStatus) => {
+    setMessages(prev => prev.map(m => (m.send_status && m.client_id === clientId ? { ...m, send_status: status } : m)));
+  };
+
+  // Show queued messages of a conversation after (re)loading it
+  const loadOutboxMessages = async (conversationId: string) => {
+    if (!user) return;
+    try {
+      const items = (await getOutboxItems(user.id)).filter(item => item.conversation_id === conversationId);
+      if (items.length === 0 || selectedConversationRef.current !== conversationId) return;
+      const optimisticMessages = items.map(toOptimisticMessage);
+      setMessages(prev => {
+        const deliveredClientIds = new Set(prev.filter(m => !m.send_status).map(m => m.client_id));
+        return mergeMessages(prev, optimisticMessages.filter(m => !deliveredClientIds.has(m.client_id)));
+      });
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+    }
+  };
+
+  const deliverOutboxItem = async (item: OutboxItem) => {
+    if (deliveringRef.current.has(item.client_id)) return;
+    deliveringRef.current.add(item.client_id);
+    const controller = new AbortController();
+    uploadControllersRef.current.set(item.client_id, controller);
+    try {
+      let imageUrl: string | null = null;
+      let audioPath: string | null = null;
+      // Named after the client_id, so a retried upload resumes or finds the stored copy instead of duplicating
+      const fileName = `${item.user_id}/${item.client_id}.${item.file_ext}`;
+      const trackProgress = (index: number) => (fraction: number) => setFileUploadProgress(item.client_id, index, fraction);
+      if (item.message_type === 'image' && item.file) {
+        await uploadResumable('chat-images', fileName, item.file, {
+          contentType: getAttachmentMimeType(item.file),
+          onProgress: trackProgress(0),
+          signal: controller.signal,
+        });
+        imageUrl = supabase.storage.from('chat-images').getPublicUrl(fileName).data.publicUrl;
+      }
+      if (item.message_type === 'audio' && item.file) {
+        await uploadResumable('voice-notes', fileName, item.file, {
+          contentType: getBaseMimeType(item.file.type),
+          onProgress: trackProgress(0),
+          signal: controller.signal,
+        });
+        audioPath = fileName;
+      }
+
+      let delivered: MessageRowWithProfile;
+      // Cancelled while the last bytes were going out; nothing has been stored yet
+      if (controller.signal.aborted) throw new DOMException('Upload cancelled', 'AbortError');
+      if (item.message_type === 'file' || item.message_type === 'album') {
+        const isAlbum = item.message_type === 'album';
+        const photos = item.album || [];
+        const uploads = isAlbum
+          // Numbered, since photos picked from different folders can share a name
+          ? photos.map((photo, index) => ({ file: photo.file, name: photo.file_name, path: `${item.user_id}/${item.client_id}/${index}-${toStorageFileName(photo.file_name)}` }))
+          : item.file
+            ? [{ file: item.file, name: item.file_name || 'file', path: `${item.user_id}/${item.client_id}/${toStorageFileName(item.file_name || 'file')}` }]
+            : [];
+        // In parallel, each file reporting its own progress
+        await Promise.all(uploads.map((upload, index) =>
+          uploadResumable('chat-files', upload.path, upload.file, {
+            contentType: getAttachmentMimeType(upload.file),
+            onProgress: trackProgress(index),
+            signal: controller.signal,
+          })
+        ));
+        // Dimensions and placeholders are all-or-nothing, as they come from the same compressor
+        const hasDimensions = isAlbum && photos.every(photo => photo.width && photo.height);
+        const hasThumbnails = isAlbum && photos.every(photo => photo.thumbnail);
+        // Stores the message with its attachments in one go; returns the earlier message on a retry
+        const { data: messageId, error } = await supabase.rpc('send_attachment_message', {
+          conversation_uuid: item.conversation_id,
+          client_uuid: item.client_id,
+          storage_paths: uploads.map(upload => upload.path),
+          file_names: uploads.map(upload => upload.name),
+          caption: item.content ?? undefined,
+          quoted_message_uuid: item.quoted_message_id ?? undefined,
+          as_album: isAlbum,
+          image_widths: hasDimensions ? photos.map(photo => photo.width ?? 0) : undefined,
+          image_heights: hasDimensions ? photos.map(photo => photo.height ?? 0) : undefined,
+          thumbnails: hasThumbnails ? photos.map(photo => photo.thumbnail ?? '') : undefined,
+        });
+        if (error) throw error;
+        const { data, error: fetchError } = await supabase.from('messages').select(MESSAGE_SELECT).eq('id', messageId).single();
+        if (fetchError) throw fetchError;
+        delivered = data;
+      } else {
+        const { data, error } = await supabase
+          .from('messages')
+          .insert({
+            client_id: item.client_id,
+            conversation_id: item.conversation_id,
+            sender_id: item.user_id,
+            content: item.content,
+            image_url: imageUrl,
+            audio_path: audioPath,
+            audio_duration_ms: item.audio_duration_ms ?? null,
+            audio_peaks: item.audio_peaks ?? null,
+            message_type: item.message_type,
+            quoted_message_id: item.quoted_message_id,
+            mentions: item.mentions,
+          })
+          .select(MESSAGE_SELECT)
+          .single();
+
+        delivered = data;
+        if (error) {
+          // Stored by an earlier attempt whose response never arrived
+          if (error.code !== '23505') throw error;
+          const { data: existing, error: fetchError } = await supabase
             .from('messages')
-            .update({ seen_by: [...currentSeenBy, user.id] })
-            .eq('id', msg.id);
+            .select(MESSAGE_SELECT)
+            .eq('sender_id', item.user_id)
+            .eq('client_id', item.client_id)
+            .single();
+          if (fetchError) throw fetchError;
+          delivered = existing;
         }
       }
+
+      await deleteOutboxItem(item.client_id);
+      if (delivered.conversation_id === selectedConversationRef.current) {
+        setMessages(prev => upsertDeliveredMessage(prev, toMessage(delivered)));
+      }
+      releasePreviewUrl(item.client_id);
     } catch (error) {
-      console.error('Error marking messages as seen:', error);
+      // Cancelled by the sender, who has already discarded the message
+      if (isUploadCancelled(error)) return;
+      console.error('Error sending message:', error);
+      // Offline failures stay pending and go out on the next 'online' event; anything else waits for a manual retry
+      if (navigator.onLine) {
+        setSendStatus(item.client_id, 'failed');
+        putOutboxItem({ ...item, status: 'failed' }).catch(outboxError => console.error('Error updating outbox:', outboxError));
+        if (item.message_type !== 'text') {
+          toast({ title: "Upload failed", description: "Your attachment wasn't sent. Retry to continue where it stopped.", variant: "destructive" });
+        }
+      }
+    } finally {
+      deliveringRef.current.delete(item.client_id);
+      uploadControllersRef.current.delete(item.client_id);
+      clearUploadProgress(item.client_id);
     }
   };
 
-  // ----- Message reactions -----
-  const addReaction = async (messageId: string, emoji: string) => {
-    if (!user) return;
-    
+  const flushOutbox = async () => {
+    if (!user || !navigator.onLine) return;
     try {
-      const message = messages.find(m => m.id === messageId);
-      if (!message) return;
-      
-      const currentReactions = message.reactions || [];
-      const existingReactionIndex = currentReactions.findIndex(
-        r => r.user_id === user.id && r.emoji === emoji
-      );
-      
-      let newReactions;
-      if (existingReactionIndex > -1) {
-        // Remove reaction if already exists
-        newReactions = currentReactions.filter((_, i) => i !== existingReactionIndex);
-      } else {
-        // Add new reaction
-        newReactions = [...currentReactions, { emoji, user_id: user.id }];
+      const items = await getOutboxItems(user.id);
+      // One at a time, so messages arrive in the order they were written
+      for (const item of items) {
+        if (item.status === 'pending') await deliverOutboxItem(item);
       }
-      
-      const { error } = await supabase
-        .from('messages')
-        .update({ reactions: newReactions })
-        .eq('id', messageId);
-      
-      if (error) throw error;
-      
-      // Update local state
-      setMessages(prev => prev.map(m => 
-        m.id === messageId ? { ...m, reactions: newReactions } : m
-      ));
     } catch (error) {
-      console.error('Error adding reaction:', error);
+      console.error('Error flushing outbox:', error);
     }
   };
 
-  const subscribeToMessages = () => {
-    return supabase
-      .channel(`messages-${selectedConversation}`)
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter: `conversation_id=eq.${selectedConversation}`},
-        async (payload) => {
-          const newMessagePayload = payload.new as any;
-          const { data: profileData } = await supabase.from('profiles').select('user_id, display_name, avatar_url').eq('user_id', newMessagePayload.sender_id).maybeSingle();
-          const messageWithProfile: Message = { 
-            ...newMessagePayload, 
-            message_type: newMessagePayload.message_type as 'text' | 'image' | 'call_info',
-            reactions: newMessagePayload.reactions || [],
-            seen_by: newMessagePayload.seen_by || [],
-            sender_profile: profileData 
-          };
-          setMessages(prevMessages => {
-            const exists = prevMessages.some(msg => msg.id === messageWithProfile.id);
-            if (exists) return prevMessages;
-            return [...prevMessages, messageWithProfile];
-          });
-          
-          // Send push notification for new messages from others
-          if (newMessagePayload.sender_id !== user?.id && profileData) {
-            sendNotification(`New message from ${profileData.display_name}`, {
-              body: newMessagePayload.content || 'Sent an image',
-              tag: `message-${newMessagePayload.id}`
-            });
-          }
-        }
-      )
-      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages', filter: `conversation_id=eq.${selectedConversation}`},
-        async (payload) => {
-          const updatedMessage = payload.new as any;
-          setMessages(prevMessages => 
-            prevMessages.map(msg => 
-              msg.id === updatedMessage.id 
-                ? { 
-                    ...msg, 
-                    content: updatedMessage.content,
-                    reactions: updatedMessage.reactions || [],
-                    seen_by: updatedMessage.seen_by || []
-                  } 
-                : msg
-            )
-          );
-        }
-      )
-      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'messages', filter: `conversation_id=eq.${selectedConversation}`},
-        async (payload) => {
-          const deletedMessage = payload.old as any;
-          setMessages(prevMessages => prevMessages.filter(msg => msg.id !== deletedMessage.id));
-        }
-      )
-      .subscribe();
-  };
-  
-  // ----- Message editing -----
-  const startEditMessage = (message: Message) => {
-    setEditingMessage(message);
-    setEditContent(message.content || '');
-  };
-  
-  const cancelEdit = () => {
-    setEditingMessage(null);
-    setEditContent('');
+  const queueMessage = async (item: OutboxItem) => {
+    setMessages(prev => mergeMessages(prev, [toOptimisticMessage(item)]));
+    try {
+      await putOutboxItem(item);
+    } catch (error) {
+      // Still try to send; the message just won't survive a reload
+      console.error('Error saving message to outbox:', error);
+    }
+    updateUserPresence();
+    // Not awaited: uploads run in the background, so the composer stays free meanwhile
+    if (navigator.onLine) deliverOutboxItem(item);
   };
-  
-  const saveEditMessage = async () => {
-    if (!editingMessage || !editContent.trim()) return;
-    
+
+  const retryMessage = async (message: Message) => {
+    if (!message.client_id) return;
     try {
-      const { error } = await supabase
-        .from('messages')
-        .update({ content: editContent.trim() })
-        .eq('id', editingMessage.id);
-      
-      if (error) throw error;
-      
-      setMessages(prev => prev.map(msg => 
-        msg.id === editingMessage.id ? { ...msg, content: editContent.trim() } : msg
-      ));
-      cancelEdit();
+      const item = await getOutboxItem(message.client_id);
+      if (!item) return;
+      const pendingItem: OutboxItem = { ...item, status: 'pending' };
+      await putOutboxItem(pendingItem);
+      setSendStatus(item.client_id, 'pending');
+      if (navigator.onLine) await deliverOutboxItem(pendingItem);
     } catch (error) {
-      console.error('Error editing message:', error);
+      console.error('Error retrying message:', error);
     }
   };
-  
-  // ----- Message deletion -----
-  const confirmDeleteMessage = async () => {
-    if (!messageToDelete) return;
-    
+
+  // Also cancels an upload that is still running
+  const discardMessage = async (message: Message) => {
+    if (!message.client_id) return;
+    uploadControllersRef.current.get(message.client_id)?.abort();
     try {
-      const { error } = await supabase
-        .from('messages')
-        .delete()
-        .eq('id', messageToDelete.id);
-      
-      if (error) throw error;
-      
-      setMessages(prev => prev.filter(msg => msg.id !== messageToDelete.id));
-      setMessageToDelete(null);
+      await deleteOutboxItem(message.client_id);
     } catch (error) {
-      console.error('Error deleting message:', error);
+      console.error('Error discarding message:', error);
     }
+    setMessages(prev => prev.filter(m => m.id !== message.id));
+    releasePreviewUrl(message.client_id);
   };
-  
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || !selectedConversation || !user) return;
-    setIsLoading(true);
     
     // Stop typing indicator
     sendTypingIndicator(false);
@@ -503,46 +1995,240 @@ const Chat = () => {
       clearTimeout(typingTimeoutRef.current);
     }
     
+    const item: OutboxItem = {
+      client_id: crypto.randomUUID(),
+      user_id: user.id,
+      conversation_id: selectedConversation,
+      message_type: 'text',
+      content: newMessage,
+      quoted_message_id: replyingTo?.id ?? null,
+      mentions: extractMentionedUserIds(newMessage, getMentionableParticipants()),
+      created_at: new Date().toISOString(),
+      status: 'pending',
+    };
+    setNewMessage('');
+    setShowPreview(false);
+    setMentionQuery(null);
+    setReplyingTo(null);
+    await queueMessage(item);
+  };
+
+  // One photo goes out as an image message, several as a single album. Photos are resized
+  // in a worker first, so only a fraction of the camera file is uploaded.
+  const sendImages = async (files: File[], caption: string | null, quotedMessageId: string | null) => {
+    if (!selectedConversation || !user) return;
+    const images = files.filter(file => {
+      const problem = validateImage(file);
+      if (problem) toast({ title: "Can't send photo", description: problem, variant: "destructive" });
+      return !problem;
+    });
+    if (images.length > MAX_ALBUM_PHOTOS) {
+      toast({ title: "Too many photos", description: `Only the first ${MAX_ALBUM_PHOTOS} photos are sent.`, variant: "destructive" });
+    }
+    if (images.length === 0) return;
+
+    const conversationId = selectedConversation;
+    setIsPreparingImages(true);
+    let photos: AlbumPhoto[];
     try {
-      await updateUserPresence();
-      const { error } = await supabase.from('messages').insert({ conversation_id: selectedConversation, sender_id: user.id, content: newMessage, message_type: 'text' });
-      if (error) throw error;
-      setNewMessage('');
-    } catch (error: any) {
-      console.error("Failed to send message:", error.message);
+      const compressed = await Promise.all(images.slice(0, MAX_ALBUM_PHOTOS).map(compressImage));
+      // Checked here rather than left to the server, which would only fail the album after uploading it
+      photos = compressed.flatMap((image, index) => {
+        const problem = validateCompressedImage(images[index], image.blob);
+        if (problem) {
+          toast({ title: "Can't send photo", description: problem, variant: "destructive" });
+          return [];
+        }
+        return [{
+          file: image.blob,
+          file_name: toCompressedFileName(images[index].name, image.blob),
+          width: image.width,
+          height: image.height,
+          thumbnail: image.thumbnail,
+        }];
+      });
     } finally {
-      setIsLoading(false);
+      setIsPreparingImages(false);
     }
+    if (photos.length === 0) return;
+
+    const item: OutboxItem = {
+      client_id: crypto.randomUUID(),
+      user_id: user.id,
+      conversation_id: conversationId,
+      message_type: photos.length === 1 ? 'image' : 'album',
+      content: caption?.trim() || null,
+      ...(photos.length === 1
+        ? { file: photos[0].file, file_ext: getImageExtension(photos[0].file, photos[0].file_name) }
+        : { album: photos }),
+      quoted_message_id: quotedMessageId,
+      mentions: caption ? extractMentionedUserIds(caption, getMentionableParticipants()) : [],
+      created_at: new Date().toISOString(),
+      status: 'pending',
+    };
+    await queueMessage(item);
   };
 
   const uploadImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !selectedConversation || !user) return;
-    if (!file.type.startsWith('image/')) {
-      console.error("Invalid file type: Please select an image file.");
-      return;
+    const files = Array.from(e.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+    const quotedMessageId = replyingTo?.id ?? null;
+    setReplyingTo(null);
+    await sendImages(files, null, quotedMessageId);
+  };
+
+  // Any file type; each file goes out as its own message, quoting only in the first one
+  const sendFiles = async (files: { file: File; caption: string | null }[], quotedMessageId: string | null) => {
+    if (!selectedConversation || !user) return;
+    for (const { file, caption } of files) {
+      const problem = validateAttachment(file);
+      if (problem) {
+        toast({ title: "Can't attach file", description: problem, variant: "destructive" });
+        continue;
+      }
+      await queueMessage({
+        client_id: crypto.randomUUID(),
+        user_id: user.id,
+        conversation_id: selectedConversation,
+        message_type: 'file',
+        content: caption?.trim() || null,
+        file,
+        file_name: file.name,
+        quoted_message_id: quotedMessageId,
+        mentions: caption ? extractMentionedUserIds(caption, getMentionableParticipants()) : [],
+        created_at: new Date().toISOString(),
+        status: 'pending',
+      });
+      quotedMessageId = null;
     }
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
-      console.error("File too large: Please select an image smaller than 10MB.");
-      return;
+  };
+
+  const uploadAttachments = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (attachmentInputRef.current) attachmentInputRef.current.value = '';
+    if (files.length === 0) return;
+    const quotedMessageId = replyingTo?.id ?? null;
+    setReplyingTo(null);
+    await sendFiles(files.map(file => ({ file, caption: null })), quotedMessageId);
+  };
+
+  // ----- Pending attachments -----
+  // Dropped and pasted files wait in a tray above the composer, so they can be captioned
+  // or removed before sending. Files that could never be sent are turned away right here.
+  const addPendingAttachments = (files: File[]) => {
+    if (!selectedConversation || files.length === 0) return;
+    let imageCount = pendingAttachments.filter(a => a.file.type.startsWith('image/')).length;
+    const accepted: PendingAttachment[] = [];
+    for (const file of files) {
+      const isImage = file.type.startsWith('image/');
+      const problem = isImage ? validateImage(file) : validateAttachment(file);
+      if (problem) {
+        toast({ title: "Can't attach file", description: problem, variant: "destructive" });
+        continue;
+      }
+      if (isImage && ++imageCount > MAX_ALBUM_PHOTOS) {
+        toast({ title: "Too many photos", description: `An album holds up to ${MAX_ALBUM_PHOTOS} photos.`, variant: "destructive" });
+        continue;
+      }
+      accepted.push({ id: crypto.randomUUID(), file, preview_url: isImage ? URL.createObjectURL(file) : null, caption: '' });
     }
-    setIsLoading(true);
-    try {
-      await updateUserPresence();
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-      const { error: uploadError } = await supabase.storage.from('chat-images').upload(fileName, file);
-      if (uploadError) throw uploadError;
-      const { data } = supabase.storage.from('chat-images').getPublicUrl(fileName);
-      const { error: messageError } = await supabase.from('messages').insert({ conversation_id: selectedConversation, sender_id: user.id, image_url: data.publicUrl, message_type: 'image' });
-      if (messageError) throw messageError;
-      console.log("Image sent successfully");
-    } catch (error: any) {
-      console.error("Failed to send image:", error.message);
-    } finally {
-      setIsLoading(false);
-      if (fileInputRef.current) fileInputRef.current.value = '';
+    if (accepted.length > 0) setPendingAttachments(prev => [...prev, ...accepted]);
+  };
+
+  const removePendingAttachment = (id: string) => {
+    setPendingAttachments(prev => {
+      const removed = prev.find(a => a.id === id);
+      if (removed?.preview_url) URL.revokeObjectURL(removed.preview_url);
+      return prev.filter(a => a.id !== id);
+    });
+  };
+
+  const clearPendingAttachments = () => {
+    setPendingAttachments(prev => {
+      prev.forEach(a => a.preview_url && URL.revokeObjectURL(a.preview_url));
+      return [];
+    });
+  };
+
+  const updatePendingCaption = (id: string, caption: string) => {
+    setPendingAttachments(prev => prev.map(a => (a.id === id ? { ...a, caption } : a)));
+  };
+
+  // Photos go out together (as an album when there are several) with the first photo's
+  // caption, then every other file as its own message
+  const sendPendingAttachments = async () => {
+    const attachments = pendingAttachments;
+    if (attachments.length === 0) return;
+    const images = attachments.filter(a => a.file.type.startsWith('image/'));
+    const others = attachments.filter(a => !a.file.type.startsWith('image/'));
+    let quotedMessageId = replyingTo?.id ?? null;
+    setReplyingTo(null);
+    clearPendingAttachments();
+    if (images.length > 0) {
+      await sendImages(images.map(a => a.file), images[0].caption, quotedMessageId);
+      quotedMessageId = null;
     }
+    await sendFiles(others.map(a => ({ file: a.file, caption: a.caption })), quotedMessageId);
+  };
+
+  const handleComposerPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addPendingAttachments(files);
+  };
+
+  // ----- Drag and drop -----
+  // dragenter/dragleave fire for every child the pointer crosses, so nesting is counted
+  const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    addPendingAttachments(Array.from(e.dataTransfer.files));
+  };
+
+  const sendVoiceNote = async (recording: VoiceRecording) => {
+    if (!selectedConversation || !user) return;
+    const item: OutboxItem = {
+      client_id: crypto.randomUUID(),
+      user_id: user.id,
+      conversation_id: selectedConversation,
+      message_type: 'audio',
+      content: null,
+      file: recording.blob,
+      file_ext: getAudioExtension(recording.mime_type),
+      audio_duration_ms: recording.duration_ms,
+      audio_peaks: recording.peaks,
+      quoted_message_id: replyingTo?.id ?? null,
+      mentions: [],
+      created_at: new Date().toISOString(),
+      status: 'pending',
+    };
+    setReplyingTo(null);
+    await queueMessage(item);
   };
 
   const searchForUsers = async (searchTerm: string) => {
@@ -662,6 +2348,7 @@ const Chat = () => {
   };
 
   const selectedConv = getCurrentConversation();
+  const threadRoot = threadRootId ? messages.find(m => m.id === threadRootId) : undefined;
 
   return (
     <div className="h-screen flex flex-col bg-white overflow-hidden">
@@ -696,6 +2383,7 @@ const Chat = () => {
               </div>
             </div>
             <div className="flex space-x-2">
+              <DisappearingMessagesMenu value={messageTtl} onChange={changeMessageTtl} compact />
               <Button variant="ghost" size="sm" onClick={startVideoCall} disabled={!selectedConv.participants?.some(p => p.user_id !== user?.id)} className="hover:bg-gray-100 hover:scale-110 transition-all duration-300 text-gray-700">
                 <Video className="h-5 w-5" />
               </Button>
@@ -745,90 +2433,141 @@ const Chat = () => {
         <div className={`lg:w-80 lg:block border-r border-gray-200 bg-white backdrop-blur-sm ${selectedConversation ? 'hidden lg:block' : 'w-full block'}`}>
           <div className="p-6 border-b border-gray-200 bg-white">
             <div className="flex items-center justify-between">
-              <h2 className="text-xl font-bold text-gray-900">Conversations</h2>
-              <Dialog open={showAddUser} onOpenChange={setShowAddUser}>
-                <DialogTrigger asChild>
-                  <Button size="sm" variant="outline" className="border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300">
-                    <UserPlus className="h-4 w-4 text-gray-700" />
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="mx-4 bg-white border-gray-200">
-                  <DialogHeader>
-                    <DialogTitle className="text-xl font-bold text-gray-900">Start a chat with someone</DialogTitle>
-                  </DialogHeader>
-                  <div className="space-y-4">
-                    <Input placeholder="Search users..." value={searchUsers} onChange={(e) => { setSearchUsers(e.target.value); searchForUsers(e.target.value); }} className="border-gray-300 focus:border-blue-500 focus:ring-blue-50" />
-                    <ScrollArea className="h-60">
-                      <div className="space-y-2">
-                        {foundUsers.map((profile) => (
-                          <div key={profile.id} className="cursor-pointer hover:bg-gray-50 hover:scale-105 transition-all duration-300 border-gray-200 bg-white p-4 rounded-lg" onClick={() => createConversationWithUser(profile)}>
-                            <div className="flex items-center space-x-3">
-                              <div className="relative">
-                                <Avatar className="h-10 w-10 border-2 border-gray-200 shadow-sm">
-                                  <AvatarImage src={profile.avatar_url} />
-                                  <AvatarFallback className="bg-gray-100 text-gray-600 font-semibold"><User className="h-5 w-5" /></AvatarFallback>
-                                </Avatar>
-                                {isUserOnline(profile.user_id) && <div className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-white animate-pulse" />}
-                              </div>
-                              <div className="flex-1">
-                                <div className="flex items-center space-x-2">
-                                  <p className="font-semibold text-gray-900">{profile.display_name}</p>
-                                  {isUserOnline(profile.user_id) && <Badge variant="secondary" className="text-xs bg-green-100 text-green-800 border border-green-200">Online</Badge>}
+              <h2 className="text-xl font-bold text-gray-900">{SIDEBAR_TITLES[sidebarView]}</h2>
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant={sidebarView === 'mentions' ? 'default' : 'outline'} onClick={() => setSidebarView(prev => (prev === 'mentions' ? 'conversations' : 'mentions'))} title="Mentions" className={`hover:scale-110 transition-all duration-300 ${sidebarView === 'mentions' ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}>
+                  {sidebarView === 'mentions' ? <X className="h-4 w-4" /> : <AtSign className="h-4 w-4" />}
+                </Button>
+                <Button size="sm" variant={sidebarView === 'starred' ? 'default' : 'outline'} onClick={() => setSidebarView(prev => (prev === 'starred' ? 'conversations' : 'starred'))} title="Starred messages" className={`hover:scale-110 transition-all duration-300 ${sidebarView === 'starred' ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}>
+                  {sidebarView === 'starred' ? <X className="h-4 w-4" /> : <Star className="h-4 w-4" />}
+                </Button>
+                <Button size="sm" variant={sidebarView === 'search' ? 'default' : 'outline'} onClick={() => setSidebarView(prev => (prev === 'search' ? 'conversations' : 'search'))} title="Search" className={`hover:scale-110 transition-all duration-300 ${sidebarView === 'search' ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}>
+                  {sidebarView === 'search' ? <X className="h-4 w-4" /> : <Search className="h-4 w-4" />}
+                </Button>
+                <Dialog open={showAddUser} onOpenChange={setShowAddUser}>
+                  <DialogTrigger asChild>
+                    <Button size="sm" variant="outline" className="border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300">
+                      <UserPlus className="h-4 w-4 text-gray-700" />
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="mx-4 bg-white border-gray-200">
+                    <DialogHeader>
+                      <DialogTitle className="text-xl font-bold text-gray-900">Start a chat with someone</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                      <Input placeholder="Search users..." value={searchUsers} onChange={(e) => { setSearchUsers(e.target.value); searchForUsers(e.target.value); }} className="border-gray-300 focus:border-blue-500 focus:ring-blue-50" />
+                      <ScrollArea className="h-60">
+                        <div className="space-y-2">
+                          {foundUsers.map((profile) => (
+                            <div key={profile.id} className="cursor-pointer hover:bg-gray-50 hover:scale-105 transition-all duration-300 border-gray-200 bg-white p-4 rounded-lg" onClick={() => createConversationWithUser(profile)}>
+                              <div className="flex items-center space-x-3">
+                                <div className="relative">
+                                  <Avatar className="h-10 w-10 border-2 border-gray-200 shadow-sm">
+                                    <AvatarImage src={profile.avatar_url} />
+                                    <AvatarFallback className="bg-gray-100 text-gray-600 font-semibold"><User className="h-5 w-5" /></AvatarFallback>
+                                  </Avatar>
+                                  {isUserOnline(profile.user_id) && <div className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-white animate-pulse" />}
+                                </div>
+                                <div className="flex-1">
+                                  <div className="flex items-center space-x-2">
+                                    <p className="font-semibold text-gray-900">{profile.display_name}</p>
+                                    {isUserOnline(profile.user_id) && <Badge variant="secondary" className="text-xs bg-green-100 text-green-800 border border-green-200">Online</Badge>}
+                                  </div>
+                                  <p className="text-sm text-gray-500">@{profile.username}</p>
                                 </div>
-                                <p className="text-sm text-gray-500">@{profile.username}</p>
                               </div>
                             </div>
-                          </div>
-                        ))}
-                        {searchUsers && foundUsers.length === 0 && (
-                          <div className="text-center py-8">
-                            <User className="h-12 w-12 mx-auto text-gray-400 mb-3" />
-                            <p className="text-gray-500 font-medium">No users found</p>
-                            <p className="text-sm text-gray-400">Try searching with a different term</p>
-                          </div>
-                        )}
-                      </div>
-                    </ScrollArea>
-                  </div>
-                </DialogContent>
-              </Dialog>
+                          ))}
+                          {searchUsers && foundUsers.length === 0 && (
+                            <div className="text-center py-8">
+                              <User className="h-12 w-12 mx-auto text-gray-400 mb-3" />
+                              <p className="text-gray-500 font-medium">No users found</p>
+                              <p className="text-sm text-gray-400">Try searching with a different term</p>
+                            </div>
+                          )}
+                        </div>
+                      </ScrollArea>
+                    </div>
+                  </DialogContent>
+                </Dialog>
+              </div>
             </div>
           </div>
-          <ScrollArea className="h-[calc(100vh-200px)]">
-            <div className="p-4 space-y-3">
-              {conversations.map((conversation) => {
-                const otherParticipant = conversation.participants?.find(p => p.user_id !== user?.id);
-                const isOnline = otherParticipant && isUserOnline(otherParticipant.user_id);
-                return (
-                  <div key={conversation.id} className={`cursor-pointer transition-all duration-300 hover:scale-105 border-gray-200 ${selectedConversation === conversation.id ? 'bg-blue-50 border-blue-300 shadow-sm' : 'hover:bg-gray-50 hover:border-gray-300 bg-white'} p-4 rounded-lg`} onClick={() => setSelectedConversation(conversation.id)}>
-                    <div className="flex items-center space-x-3">
-                      <div className="relative">
-                        <Avatar className="h-12 w-12 border-2 border-gray-200 shadow-sm">
-                          <AvatarImage src={otherParticipant?.avatar_url} />
-                          <AvatarFallback className="bg-gray-100 text-gray-600 font-semibold"><User className="h-6 w-6" /></AvatarFallback>
-                        </Avatar>
-                        {!conversation.is_group && isOnline && <div className="absolute -top-1 -right-1 w-4 h-4 bg-green-500 rounded-full border-2 border-white animate-pulse" />}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center justify-between">
-                          <h3 className="font-semibold truncate text-gray-900 text-base">{getConversationName(conversation)}</h3>
-                          {!conversation.is_group && isOnline && <Badge variant="secondary" className="text-xs bg-green-100 text-green-800 border border-green-200 ml-2">Online</Badge>}
+          {sidebarView === 'search' ? (
+            <MessageSearch
+              conversations={conversations}
+              getConversationName={getConversationName}
+              onSelectResult={openMessageTarget}
+            />
+          ) : sidebarView === 'mentions' && user ? (
+            <MentionsList
+              currentUserId={user.id}
+              conversations={conversations}
+              getConversationName={getConversationName}
+              onSelectMessage={openMessageTarget}
+            />
+          ) : sidebarView === 'starred' && user ? (
+            <StarredMessagesList
+              currentUserId={user.id}
+              conversations={conversations}
+              getConversationName={getConversationName}
+              onSelectMessage={openMessageTarget}
+              onUnstar={unstarMessage}
+            />
+          ) : (
+            <ScrollArea className="h-[calc(100vh-200px)]">
+              <div className="p-4 space-y-3">
+                {conversations.map((conversation) => {
+                  const otherParticipant = conversation.participants?.find(p => p.user_id !== user?.id);
+                  const isOnline = otherParticipant && isUserOnline(otherParticipant.user_id);
+                  const unreadCount = conversation.unread_count || 0;
+                  const lastMessageSender = conversation.last_message_sender_id === user?.id
+                    ? 'You'
+                    : conversation.is_group ? conversation.participants?.find(p => p.user_id === conversation.last_message_sender_id)?.display_name : null;
+                  return (
+                    <div key={conversation.id} className={`cursor-pointer transition-all duration-300 hover:scale-105 border-gray-200 ${selectedConversation === conversation.id ? 'bg-blue-50 border-blue-300 shadow-sm' : 'hover:bg-gray-50 hover:border-gray-300 bg-white'} p-4 rounded-lg`} onClick={() => setSelectedConversation(conversation.id)}>
+                      <div className="flex items-center space-x-3">
+                        <div className="relative">
+                          <Avatar className="h-12 w-12 border-2 border-gray-200 shadow-sm">
+                            <AvatarImage src={otherParticipant?.avatar_url} />
+                            <AvatarFallback className="bg-gray-100 text-gray-600 font-semibold"><User className="h-6 w-6" /></AvatarFallback>
+                          </Avatar>
+                          {!conversation.is_group && isOnline && <div className="absolute -top-1 -right-1 w-4 h-4 bg-green-500 rounded-full border-2 border-white animate-pulse" />}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between">
+                            <h3 className={`truncate text-gray-900 text-base ${unreadCount > 0 ? 'font-bold' : 'font-semibold'}`}>{getConversationName(conversation)}</h3>
+                            {conversation.last_message_at ? (
+                              <span className={`text-xs ml-2 flex-shrink-0 ${unreadCount > 0 ? 'text-blue-600 font-semibold' : 'text-gray-400'}`}>{formatConversationTime(conversation.last_message_at)}</span>
+                            ) : (
+                              !conversation.is_group && isOnline && <Badge variant="secondary" className="text-xs bg-green-100 text-green-800 border border-green-200 ml-2">Online</Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center justify-between gap-2">
+                            <p className={`text-sm truncate ${unreadCount > 0 ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>
+                              {conversation.last_message_at
+                                ? `${lastMessageSender ? `${lastMessageSender}: ` : ''}${conversation.last_message_preview}`
+                                : conversation.is_group ? '👥 Group Chat' : '💬 Direct Message'}
+                            </p>
+                            {unreadCount > 0 && (
+                              <Badge className="flex-shrink-0 rounded-full bg-blue-500 hover:bg-blue-500 text-white text-xs px-2">{unreadCount > 99 ? '99+' : unreadCount}</Badge>
+                            )}
+                          </div>
                         </div>
-                        <p className="text-sm text-gray-500">{conversation.is_group ? '👥 Group Chat' : '💬 Direct Message'}</p>
                       </div>
                     </div>
+                  );
+                })}
+                {conversations.length === 0 && (
+                  <div className="text-center py-12">
+                    <MessageCircle className="h-16 w-16 mx-auto text-gray-400 mb-4 opacity-50" />
+                    <p className="text-gray-500 font-medium mb-2">No conversations yet</p>
+                    <p className="text-sm text-gray-400">Start chatting by adding a new contact</p>
                   </div>
-                );
-              })}
-              {conversations.length === 0 && (
-                <div className="text-center py-12">
-                  <MessageCircle className="h-16 w-16 mx-auto text-gray-400 mb-4 opacity-50" />
-                  <p className="text-gray-500 font-medium mb-2">No conversations yet</p>
-                  <p className="text-sm text-gray-400">Start chatting by adding a new contact</p>
-                </div>
-              )}
-            </div>
-          </ScrollArea>
+                )}
+              </div>
+            </ScrollArea>
+          )}
         </div>
         <div className={`flex-1 flex flex-col bg-white ${!selectedConversation ? 'hidden lg:flex' : 'flex'}`}>
           {selectedConversation && selectedConv ? (
@@ -848,171 +2587,523 @@ const Chat = () => {
                       {!selectedConv.is_group && selectedConv.participants?.some(p => p.user_id !== user?.id && isUserOnline(p.user_id)) && <p className="text-sm text-green-600 font-medium flex items-center gap-2"><div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />Online</p>}
                     </div>
                   </div>
-                  <Button variant="outline" size="sm" onClick={startVideoCall} disabled={!selectedConv.participants?.some(p => p.user_id !== user?.id)} className="border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300 text-gray-700">
-                    <Video className="h-4 w-4 mr-2" />Video Call
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <DisappearingMessagesMenu value={messageTtl} onChange={changeMessageTtl} />
+                    <Button variant="outline" size="sm" onClick={startVideoCall} disabled={!selectedConv.participants?.some(p => p.user_id !== user?.id)} className="border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300 text-gray-700">
+                      <Video className="h-4 w-4 mr-2" />Video Call
+                    </Button>
+                  </div>
                 </div>
               </div>
-              <ScrollArea className="flex-1 p-4 bg-white">
-                <div className="space-y-4">
-                  {messages.map((message, index) => {
-                    const isOwnMessage = message.sender_id === user?.id;
-                    const isLastOwnMessage = isOwnMessage && messages.filter(m => m.sender_id === user?.id).pop()?.id === message.id;
-                    const seenByOthers = message.seen_by?.filter(id => id !== user?.id) || [];
-                    const hasReactions = message.reactions && message.reactions.length > 0;
-                    
-                    return (
-                      <div key={message.id} className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'} animate-fade-in`}>
-                        <div className={`flex max-w-[85%] sm:max-w-[70%] ${isOwnMessage ? 'flex-row-reverse' : 'flex-row'} group`}>
-                          <Avatar className="h-11 w-11 mx-3 flex-shrink-0 border-3 border-gray-200 shadow-sm hover:scale-110 transition-all duration-300">
-                            <AvatarImage src={message.sender_profile?.avatar_url} />
-                            <AvatarFallback className="bg-gray-100 text-gray-600 font-bold text-lg"><User className="h-6 w-6" /></AvatarFallback>
-                          </Avatar>
-                          <div className="flex flex-col">
-                            <div className={`relative rounded-2xl p-4 shadow-sm backdrop-blur-sm border-2 hover:scale-[1.02] transition-all duration-300 ${
-                              isOwnMessage 
-                                ? 'bg-blue-500 text-white border-blue-400 shadow-blue-100' 
-                                : 'bg-gray-100 text-gray-900 border-gray-200 shadow-gray-100'
-                            }`}>
-                              <div className="absolute inset-0 bg-gradient-to-br from-white/10 to-transparent rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
-                              <div className="relative z-10">
-                                <div className="flex items-center justify-between mb-2">
-                                  <p className="text-xs font-bold opacity-80 tracking-wider uppercase">{message.sender_profile?.display_name}</p>
-                                  <p className="text-xs opacity-60">{new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
-                                </div>
-                                {message.message_type === 'text' && (
-                                  <p className="break-words text-base leading-relaxed font-medium">{message.content}</p>
-                                )}
-                                {message.message_type === 'image' && (
-                                  <div className="relative overflow-hidden rounded-xl shadow-sm">
-                                    <img 
-                                      src={message.image_url!} 
-                                      alt="Shared" 
-                                      className="max-w-full max-h-80 h-auto cursor-pointer hover:scale-110 transition-all duration-500 rounded-xl" 
-                                      onClick={() => window.open(message.image_url!, '_blank')} 
-                                    />
-                                    <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 hover:opacity-100 transition-opacity duration-300 rounded-xl" />
-                                  </div>
-                                )}
-                                {message.message_type === 'call_info' && (
-                                  <div className="flex items-center justify-center gap-2 p-3 bg-gradient-to-r from-blue-50 to-blue-100 rounded-xl border border-blue-200">
-                                    <Video className="h-4 w-4 text-blue-600" />
-                                    <p className="text-sm font-semibold text-center text-blue-900">{message.content}</p>
+              <PinnedMessagesBanner pins={pinnedMessages} onJump={jumpToPin} onOpenList={() => setShowPinnedList(true)} />
+              <div
+                className="relative flex-1 flex flex-col min-h-0"
+                onDragEnter={handleDragEnter}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+              >
+                {isDraggingFiles && (
+                  <div className="pointer-events-none absolute inset-2 z-30 flex flex-col items-center justify-center gap-2 rounded-2xl border-2 border-dashed border-blue-400 bg-blue-50/90 text-blue-700">
+                    <Upload className="h-8 w-8" />
+                    <p className="text-lg font-semibold">Drop files to attach</p>
+                    <p className="text-sm text-blue-600">Photos are sent together as an album</p>
+                  </div>
+                )}
+                <ScrollArea ref={scrollAreaRef} className="flex-1 p-4 bg-white">
+                  <div className="space-y-4">
+                    {isLoadingOlder && (
+                      <div className="flex justify-center py-2">
+                        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                      </div>
+                    )}
+                    {!hasOlderMessages && messages.length > 0 && (
+                      <p className="text-center text-xs text-gray-400 py-2">This is the beginning of the conversation</p>
+                    )}
+                    {messages.map((message, index) => {
+                      const isOwnMessage = message.sender_id === user?.id;
+                      const isLastOwnMessage = isOwnMessage && messages.filter(m => m.sender_id === user?.id && !m.send_status).pop()?.id === message.id;
+                      const hasReactions = message.reactions && message.reactions.length > 0;
+                      const uploadFraction = getUploadFraction(message);
+                      
+                      return (
+                        <div
+                          key={message.id}
+                          ref={el => { if (el) messageRefs.current.set(message.id, el); else messageRefs.current.delete(message.id); }}
+                          className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'} animate-fade-in rounded-2xl transition-colors duration-700 ${highlightedMessageId === message.id ? 'bg-yellow-100' : ''}`}
+                        >
+                          <div
+                            className={`flex max-w-[85%] sm:max-w-[70%] ${isOwnMessage ? 'flex-row-reverse' : 'flex-row'} group`}
+                            onTouchStart={handleSwipeStart}
+                            onTouchEnd={(e) => handleSwipeEnd(e, message)}
+                          >
+                            <Avatar className="h-11 w-11 mx-3 flex-shrink-0 border-3 border-gray-200 shadow-sm hover:scale-110 transition-all duration-300">
+                              <AvatarImage src={message.sender_profile?.avatar_url} />
+                              <AvatarFallback className="bg-gray-100 text-gray-600 font-bold text-lg"><User className="h-6 w-6" /></AvatarFallback>
+                            </Avatar>
+                            <div className={`flex flex-col ${message.send_status === 'pending' ? 'opacity-70' : ''}`}>
+                              <div className={`relative rounded-2xl p-4 shadow-sm backdrop-blur-sm border-2 hover:scale-[1.02] transition-all duration-300 ${
+                                isOwnMessage 
+                                  ? 'bg-blue-500 text-white border-blue-400 shadow-blue-100' 
+                                  : 'bg-gray-100 text-gray-900 border-gray-200 shadow-gray-100'
+                              }`}>
+                                <div className="absolute inset-0 bg-gradient-to-br from-white/10 to-transparent rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+                                <div className="relative z-10">
+                                  <div className="flex items-center justify-between mb-2">
+                                    <p className="text-xs font-bold opacity-80 tracking-wider uppercase">{message.sender_profile?.display_name}</p>
+                                    <p className="text-xs opacity-60">
+                                      {pinnedMessages.some(p => p.message_id === message.id) && (
+                                        <Pin className="inline h-3 w-3 mr-1" aria-label="Pinned" />
+                                      )}
+                                      {starredMessageIds.has(message.id) && (
+                                        <Star className="inline h-3 w-3 mr-1 fill-current" aria-label="Starred" />
+                                      )}
+                                      {message.expires_at && (
+                                        <Timer className="inline h-3 w-3 mr-1" aria-label={`Disappears ${new Date(message.expires_at).toLocaleString()}`} />
+                                      )}
+                                      {message.edited_at && !message.deleted_at && (
+                                        <button onClick={() => setHistoryMessageId(message.id)} title="View edit history" className="mr-1 italic hover:underline">(edited)</button>
+                                      )}
+                                      {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                    </p>
                                   </div>
-                                )}
+                                  {message.forwarded && !message.deleted_at && (
+                                    <p className="flex items-center gap-1 mb-1 text-xs italic opacity-70">
+                                      <Forward className="h-3 w-3" />Forwarded
+                                    </p>
+                                  )}
+                                  {message.quoted_message_id && !message.deleted_at && (
+                                    <div className="mb-2">
+                                      <QuotedMessagePreview
+                                        message={resolveQuotedMessage(message.quoted_message_id)}
+                                        variant={isOwnMessage ? 'own' : 'other'}
+                                        onClick={() => jumpToMessage(message.quoted_message_id!)}
+                                      />
+                                    </div>
+                                  )}
+                                  {message.deleted_at ? (
+                                    <p className="flex items-center gap-2 text-base italic opacity-70">
+                                      <Ban className="h-4 w-4" />
+                                      This message was deleted
+                                    </p>
+                                  ) : (
+                                    <>
+                                      {message.message_type === 'text' && (
+                                        editingMessage?.id === message.id ? (
+                                          <div className="flex items-end gap-2">
+                                            {/* Edits the raw Markdown source; Shift+Enter adds a line */}
+                                            <Textarea
+                                              value={editContent}
+                                              onChange={(e) => setEditContent(e.target.value)}
+                                              onKeyDown={(e) => {
+                                                if (e.key === 'Enter' && !e.shiftKey) {
+                                                  e.preventDefault();
+                                                  saveEditMessage();
+                                                }
+                                                if (e.key === 'Escape') cancelEdit();
+                                              }}
+                                              autoFocus
+                                              rows={Math.min(editContent.split('\n').length, 8)}
+                                              className="min-h-[36px] resize-none bg-white text-gray-900 border-gray-200"
+                                            />
+                                            <button onClick={saveEditMessage} title="Save" className="p-1.5 rounded-full hover:bg-white/20">
+                                              <Send className="h-4 w-4" />
+                                            </button>
+                                            <button onClick={cancelEdit} title="Cancel" className="p-1.5 rounded-full hover:bg-white/20">
+                                              <X className="h-4 w-4" />
+                                            </button>
+                                          </div>
+                                        ) : (
+                                          <MarkdownContent
+                                            content={message.content || ''}
+                                            variant={isOwnMessage ? 'own' : 'other'}
+                                            mentionedUsernames={getMentionedUsernames(message)}
+                                            currentUsername={userProfile?.username}
+                                            className="text-base leading-relaxed font-medium"
+                                          />
+                                        )
+                                      )}
+                                      {message.message_type === 'image' && (
+                                        <div className="relative overflow-hidden rounded-xl shadow-sm">
+                                          <ChatImage 
+                                            imageUrl={message.image_url!} 
+                                            alt="Shared" 
+                                            className="max-w-full max-h-80 h-auto cursor-pointer hover:scale-110 transition-all duration-500 rounded-xl" 
+                                            onClick={() => setLightboxImageId(message.id)} 
+                                          />
+                                          <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 hover:opacity-100 transition-opacity duration-300 rounded-xl" />
+                                          {uploadFraction !== undefined && (
+                                            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 rounded-xl bg-black/40 text-xs font-semibold text-white">
+                                              {Math.round(uploadFraction * 100)}%
+                                              <div className="h-1 w-1/2 overflow-hidden rounded-full bg-white/30">
+                                                <div className="h-full bg-white transition-all" style={{ width: `${uploadFraction * 100}%` }} />
+                                              </div>
+                                            </div>
+                                          )}
+                                        </div>
+                                      )}
+                                      {message.message_type === 'image' && message.content && (
+                                        <MarkdownContent
+                                          content={message.content}
+                                          variant={isOwnMessage ? 'own' : 'other'}
+                                          mentionedUsernames={getMentionedUsernames(message)}
+                                          currentUsername={userProfile?.username}
+                                          className="mt-2 text-base leading-relaxed font-medium"
+                                        />
+                                      )}
+                                      {message.message_type === 'call_info' && (
+                                        <div className="flex items-center justify-center gap-2 p-3 bg-gradient-to-r from-blue-50 to-blue-100 rounded-xl border border-blue-200">
+                                          <Video className="h-4 w-4 text-blue-600" />
+                                          <p className="text-sm font-semibold text-center text-blue-900">{message.content}</p>
+                                        </div>
+                                      )}
+                                      {message.message_type === 'audio' && (message.audio_path || message.audio_preview_url) && (
+                                        <VoiceNotePlayer
+                                          path={message.audio_path ?? null}
+                                          previewUrl={message.audio_preview_url}
+                                          durationMs={message.audio_duration_ms || 0}
+                                          peaks={message.audio_peaks || []}
+                                          variant={isOwnMessage ? 'own' : 'other'}
+                                          played={isOwnMessage ? (message.played_by?.length ?? 0) > 0 : !!user && !!message.played_by?.includes(user.id)}
+                                          onPlay={() => markVoiceNotePlayed(message)}
+                                        />
+                                      )}
+                                      {message.message_type === 'file' && (
+                                        <div className="space-y-2">
+                                          {message.attachments?.map(attachment => (
+                                            <FileAttachmentCard
+                                              key={attachment.id}
+                                              attachment={attachment}
+                                              variant={isOwnMessage ? 'own' : 'other'}
+                                              pending={message.send_status === 'pending'}
+                                              progress={message.client_id ? uploadProgress[message.client_id]?.[attachment.position] : undefined}
+                                            />
+                                          ))}
+                                          {message.content && (
+                                            <MarkdownContent
+                                              content={message.content}
+                                              variant={isOwnMessage ? 'own' : 'other'}
+                                              mentionedUsernames={getMentionedUsernames(message)}
+                                              currentUsername={userProfile?.username}
+                                              className="text-base leading-relaxed font-medium"
+                                            />
+                                          )}
+                                        </div>
+                                      )}
+                                      {message.message_type === 'album' && (
+                                        <div className="space-y-2">
+                                          <AlbumGrid
+                                            attachments={message.attachments || []}
+                                            progress={message.client_id ? uploadProgress[message.client_id] : undefined}
+                                            onOpen={(attachment) => setLightboxImageId(`${message.id}:${attachment.position}`)}
+                                          />
+                                          {message.content && (
+                                            <MarkdownContent
+                                              content={message.content}
+                                              variant={isOwnMessage ? 'own' : 'other'}
+                                              mentionedUsernames={getMentionedUsernames(message)}
+                                              currentUsername={userProfile?.username}
+                                              className="text-base leading-relaxed font-medium"
+                                            />
+                                          )}
+                                        </div>
+                                      )}
+                                      {message.message_type === 'poll' && message.poll && (
+                                        <PollCard
+                                          poll={message.poll}
+                                          currentUserId={user?.id || ''}
+                                          canClose={isOwnMessage}
+                                          variant={isOwnMessage ? 'own' : 'other'}
+                                          getUserName={getParticipantName}
+                                          onVote={(optionIds) => votePoll(message.id, optionIds)}
+                                          onClose={() => closePoll(message.id)}
+                                        />
+                                      )}
+                                      {message.message_type === 'system' && (
+                                        <div className="flex items-center justify-center gap-2 p-3 bg-gradient-to-r from-blue-50 to-blue-100 rounded-xl border border-blue-200">
+                                          <Timer className="h-4 w-4 text-blue-600" />
+                                          <p className="text-sm font-semibold text-center text-blue-900">{message.content}</p>
+                                        </div>
+                                      )}
+                                    </>
+                                  )}
+                                </div>
+                                
+                                {/* Hover actions */}
+                                <div className={`absolute -bottom-2 ${isOwnMessage ? '-left-2 flex-row-reverse' : '-right-2'} flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity`}>
+                                  {!message.deleted_at && !message.send_status && (
+                                    <>
+                                      <Popover>
+                                        <PopoverTrigger asChild>
+                                          <button className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                            <Smile className="h-4 w-4 text-gray-500" />
+                                          </button>
+                                        </PopoverTrigger>
+                                        <PopoverContent className="w-auto p-2 bg-white border border-gray-200 shadow-lg rounded-full">
+                                          <div className="flex gap-1">
+                                            {REACTION_EMOJIS.map(emoji => (
+                                              <button 
+                                                key={emoji} 
+                                                onClick={() => addReaction(message.id, emoji)}
+                                                className="hover:scale-125 transition-transform p-1 text-lg"
+                                              >
+                                                {emoji}
+                                              </button>
+                                            ))}
+                                          </div>
+                                        </PopoverContent>
+                                      </Popover>
+                                      {message.message_type !== 'call_info' && message.message_type !== 'system' && (
+                                        <>
+                                          <button onClick={() => setReplyingTo(message)} title="Reply" className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                            <Reply className="h-4 w-4 text-gray-500" />
+                                          </button>
+                                          <button onClick={() => openThread(message.id)} title="Reply in thread" className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                            <MessageSquare className="h-4 w-4 text-gray-500" />
+                                          </button>
+                                          {(message.message_type === 'text' || message.message_type === 'image') && (
+                                            <button onClick={() => setMessageToForward(message)} title="Forward" className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                              <Forward className="h-4 w-4 text-gray-500" />
+                                            </button>
+                                          )}
+                                        </>
+                                      )}
+                                      {isOwnMessage && message.message_type === 'text' && (
+                                        <button onClick={() => startEditMessage(message)} title="Edit" className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                          <Edit2 className="h-4 w-4 text-gray-500" />
+                                        </button>
+                                      )}
+                                      {canManagePins && (pinnedMessages.some(p => p.message_id === message.id) ? (
+                                        <button onClick={() => unpinMessage(message.id)} title="Unpin" className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                          <PinOff className="h-4 w-4 text-gray-500" />
+                                        </button>
+                                      ) : (
+                                        <button onClick={() => pinMessage(message)} title="Pin" className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                          <Pin className="h-4 w-4 text-gray-500" />
+                                        </button>
+                                      ))}
+                                      {starredMessageIds.has(message.id) ? (
+                                        <button onClick={() => unstarMessage(message.id)} title="Unstar" className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                          <Star className="h-4 w-4 text-yellow-500 fill-current" />
+                                        </button>
+                                      ) : (
+                                        <button onClick={() => starMessage(message)} title="Star" className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                          <Star className="h-4 w-4 text-gray-500" />
+                                        </button>
+                                      )}
+                                    </>
+                                  )}
+                                  {/* Unsent messages have no stored row to delete yet; the status row below cancels or discards them */}
+                                  {!message.send_status && (
+                                    <button onClick={() => setMessageToDelete(message)} title="Delete" className="bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110">
+                                      <Trash2 className="h-4 w-4 text-gray-500" />
+                                    </button>
+                                  )}
+                                </div>
                               </div>
+
+                              {/* Link preview */}
+                              {previewLinks.has(message.id) && !message.link_preview_hidden && (
+                                <LinkPreviewCard
+                                  url={previewLinks.get(message.id)!}
+                                  align={isOwnMessage ? 'end' : 'start'}
+                                  onRemove={isOwnMessage ? () => hideLinkPreview(message) : undefined}
+                                />
+                              )}
+
+                              {/* Thread replies summary */}
+                              {(message.reply_count ?? 0) > 0 && (
+                                <button
+                                  onClick={() => openThread(message.id)}
+                                  className={`flex items-center gap-1 mt-2 text-xs font-semibold text-blue-600 hover:underline ${isOwnMessage ? 'self-end' : 'self-start'}`}
+                                >
+                                  <MessageSquare className="h-3.5 w-3.5" />
+                                  {message.reply_count} {message.reply_count === 1 ? 'reply' : 'replies'}
+                                  {message.last_reply_at && (
+                                    <span className="font-normal text-gray-400">· {new Date(message.last_reply_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                                  )}
+                                </button>
+                              )}
                               
-                              {/* Reaction button */}
-                              <Popover>
-                                <PopoverTrigger asChild>
-                                  <button className={`absolute -bottom-2 ${isOwnMessage ? '-left-2' : '-right-2'} opacity-0 group-hover:opacity-100 transition-opacity bg-white border border-gray-200 rounded-full p-1.5 shadow-md hover:scale-110`}>
-                                    <Smile className="h-4 w-4 text-gray-500" />
-                                  </button>
-                                </PopoverTrigger>
-                                <PopoverContent className="w-auto p-2 bg-white border border-gray-200 shadow-lg rounded-full">
-                                  <div className="flex gap-1">
-                                    {REACTION_EMOJIS.map(emoji => (
-                                      <button 
-                                        key={emoji} 
-                                        onClick={() => addReaction(message.id, emoji)}
-                                        className="hover:scale-125 transition-transform p-1 text-lg"
-                                      >
-                                        {emoji}
-                                      </button>
-                                    ))}
-                                  </div>
-                                </PopoverContent>
-                              </Popover>
-                            </div>
-                            
-                            {/* Reactions display */}
-                            {hasReactions && (
-                              <div className={`flex flex-wrap gap-1 mt-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
-                                {Object.entries(
-                                  message.reactions!.reduce((acc, r) => {
-                                    acc[r.emoji] = (acc[r.emoji] || 0) + 1;
-                                    return acc;
-                                  }, {} as Record<string, number>)
-                                ).map(([emoji, count]) => (
-                                  <button 
-                                    key={emoji}
-                                    onClick={() => addReaction(message.id, emoji)}
-                                    className="bg-white border border-gray-200 rounded-full px-2 py-0.5 text-sm shadow-sm hover:scale-105 transition-transform flex items-center gap-1"
-                                  >
-                                    <span>{emoji}</span>
-                                    <span className="text-xs text-gray-600">{count}</span>
-                                  </button>
-                                ))}
-                              </div>
-                            )}
-                            
-                            {/* Seen status for own messages */}
-                            {isOwnMessage && isLastOwnMessage && (
-                              <div className={`flex items-center gap-1 mt-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
-                                {seenByOthers.length > 0 ? (
-                                  <span className="flex items-center gap-1 text-xs text-blue-500">
-                                    <CheckCheck className="h-4 w-4" />
-                                    Seen
+                              {/* Reactions display */}
+                              {hasReactions && (
+                                <ReactionPills
+                                  reactions={message.reactions!}
+                                  participants={selectedConv.participants || []}
+                                  currentUserId={user?.id}
+                                  align={isOwnMessage ? 'end' : 'start'}
+                                  onToggle={(emoji) => addReaction(message.id, emoji)}
+                                />
+                              )}
+                              
+                              {/* Delivery state of messages still in the outbox */}
+                              {message.send_status === 'pending' && (
+                                <div className="flex items-center justify-end gap-2 mt-1 text-xs text-gray-400">
+                                  <span className="flex items-center gap-1">
+                                    <Clock className="h-3.5 w-3.5" />
+                                    {uploadFraction !== undefined ? `Uploading ${Math.round(uploadFraction * 100)}%` : 'Sending…'}
                                   </span>
-                                ) : (
-                                  <span className="flex items-center gap-1 text-xs text-gray-400">
-                                    <Check className="h-4 w-4" />
-                                    Sent
+                                  {message.message_type !== 'text' && (
+                                    <button onClick={() => discardMessage(message)} className="font-semibold text-gray-500 hover:underline">
+                                      Cancel
+                                    </button>
+                                  )}
+                                </div>
+                              )}
+                              {message.send_status === 'failed' && (
+                                <div className="flex items-center justify-end gap-2 mt-1 text-xs">
+                                  <span className="flex items-center gap-1 text-red-500">
+                                    <AlertCircle className="h-3.5 w-3.5" />
+                                    Not sent
                                   </span>
-                                )}
-                              </div>
-                            )}
+                                  <button onClick={() => retryMessage(message)} className="flex items-center gap-1 font-semibold text-blue-600 hover:underline">
+                                    <RotateCw className="h-3 w-3" />
+                                    Retry
+                                  </button>
+                                  <button onClick={() => discardMessage(message)} className="font-semibold text-gray-500 hover:underline">
+                                    Discard
+                                  </button>
+                                </div>
+                              )}
+                              
+                              {/* Seen status for own messages */}
+                              {isOwnMessage && isLastOwnMessage && (
+                                <div className={`flex items-center gap-1 mt-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
+                                  <SeenIndicator readers={getMessageReaders(message)} isGroup={selectedConv.is_group} />
+                                </div>
+                              )}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    );
-                  })}
-                  
-                  {/* Typing indicator */}
-                  {typingUsers.size > 0 && (
-                    <div className="flex justify-start animate-fade-in">
-                      <div className="flex items-center gap-2 bg-gray-100 rounded-2xl px-4 py-3 border-2 border-gray-200">
-                        <div className="flex gap-1">
-                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                      );
+                    })}
+                    
+                    {/* Typing indicator */}
+                    {typingUsers.size > 0 && (
+                      <div className="flex justify-start animate-fade-in">
+                        <div className="flex items-center gap-2 bg-gray-100 rounded-2xl px-4 py-3 border-2 border-gray-200">
+                          <div className="flex gap-1">
+                            <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                            <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                            <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                          </div>
+                          <span className="text-sm text-gray-500">
+                            {Array.from(typingUsers.values()).map(u => u.display_name).join(', ')} is typing...
+                          </span>
                         </div>
-                        <span className="text-sm text-gray-500">
-                          {Array.from(typingUsers.values()).map(u => u.display_name).join(', ')} is typing...
-                        </span>
                       </div>
-                    </div>
-                  )}
-                  
-                  <div ref={messagesEndRef} />
-                </div>
-              </ScrollArea>
+                    )}
+                    
+                    <div ref={messagesEndRef} />
+                  </div>
+                </ScrollArea>
+                {showJumpToLatest && (
+                  <Button
+                    size="sm"
+                    onClick={jumpToLatest}
+                    className="absolute bottom-4 right-6 z-20 rounded-full bg-white text-gray-700 border border-gray-200 shadow-md hover:bg-gray-50"
+                  >
+                    <ArrowDown className="h-4 w-4 mr-1" />
+                    {newMessagesBelow > 0 ? `${newMessagesBelow} new ${newMessagesBelow === 1 ? 'message' : 'messages'}` : 'Jump to latest'}
+                  </Button>
+                )}
+              </div>
               <div className="p-4 border-t border-gray-200 bg-white">
+                {replyingTo && (
+                  <div className="mb-3">
+                    <QuotedMessagePreview message={replyingTo} variant="composer" onClick={() => jumpToMessage(replyingTo.id)} onCancel={() => setReplyingTo(null)} />
+                  </div>
+                )}
+                {pendingAttachments.length > 0 && (
+                  <PendingAttachmentsTray
+                    attachments={pendingAttachments}
+                    onCaptionChange={updatePendingCaption}
+                    onRemove={removePendingAttachment}
+                    onClear={clearPendingAttachments}
+                    onSend={sendPendingAttachments}
+                  />
+                )}
+                {scheduledMessages.length > 0 && (
+                  <button
+                    onClick={() => setShowScheduledList(true)}
+                    className="mb-3 flex items-center gap-2 text-sm font-medium text-blue-600 hover:underline"
+                  >
+                    <CalendarClock className="h-4 w-4" />
+                    {scheduledMessages.length} scheduled {scheduledMessages.length === 1 ? 'message' : 'messages'}
+                    <span className="font-normal text-gray-400">· next {formatScheduleTime(scheduledMessages[0].scheduled_for)}</span>
+                  </button>
+                )}
+                {showPreview && newMessage.trim() && (
+                  <div className="mb-3 max-h-60 overflow-y-auto rounded-xl border border-gray-200 bg-gray-50 p-3">
+                    <p className="mb-1 text-xs font-bold uppercase tracking-wider text-gray-400">Preview</p>
+                    <MarkdownContent content={newMessage} variant="other" className="text-sm text-gray-900" />
+                  </div>
+                )}
                 <form onSubmit={sendMessage} className="flex items-center space-x-3">
                   <div className="flex-1 relative">
-                    <Input 
+                    <MentionSuggestions candidates={mentionCandidates} activeIndex={mentionIndex} onSelect={selectMention} />
+                    <Textarea 
+                      ref={composerRef}
                       value={newMessage} 
                       onChange={handleInputChange} 
+                      onKeyDown={handleComposerKeyDown}
+                      onPaste={handleComposerPaste}
+                      onClick={(e) => updateMentionQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+                      onBlur={() => setMentionQuery(null)}
+                      rows={Math.min(newMessage.split('\n').length, 6)}
                       placeholder="Type your message..." 
-                      disabled={isLoading} 
-                      className="w-full border border-gray-300 focus:border-blue-500 focus:ring-4 focus:ring-blue-50 rounded-full py-3 px-5 text-base bg-white shadow-sm hover:shadow-md transition-all duration-300 font-medium placeholder:text-gray-400" 
+                      className="w-full min-h-[48px] resize-none border border-gray-300 focus:border-blue-500 focus:ring-4 focus:ring-blue-50 rounded-3xl py-3 px-5 text-base bg-white shadow-sm hover:shadow-md transition-all duration-300 font-medium placeholder:text-gray-400" 
                     />
-                    <div className="absolute inset-0 rounded-full bg-gradient-to-r from-blue-50 to-blue-100 pointer-events-none opacity-0 hover:opacity-100 transition-opacity duration-300" />
+                    <div className="absolute inset-0 rounded-3xl bg-gradient-to-r from-blue-50 to-blue-100 pointer-events-none opacity-0 hover:opacity-100 transition-opacity duration-300" />
                   </div>
-                  <input ref={fileInputRef} type="file" accept="image/*" onChange={uploadImage} className="hidden" />
+                  <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={uploadImage} className="hidden" />
+                  <input ref={attachmentInputRef} type="file" multiple onChange={uploadAttachments} className="hidden" />
+                  <Button 
+                    type="button" 
+                    size="icon" 
+                    variant="outline" 
+                    onClick={() => setShowPreview(prev => !prev)} 
+                    title={showPreview ? 'Hide formatting preview' : 'Preview formatting'}
+                    className={`border border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300 rounded-full h-12 w-12 shadow-sm hover:shadow-md ${showPreview ? 'text-blue-600' : 'text-gray-700'}`}
+                  >
+                    {showPreview ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                  </Button>
                   <Button 
                     type="button" 
                     size="icon" 
                     variant="outline" 
                     onClick={() => fileInputRef.current?.click()} 
-                    disabled={isLoading} 
+                    disabled={isPreparingImages}
+                    title={isPreparingImages ? 'Preparing photos...' : 'Send photos'}
+                    className="border border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300 text-gray-700 rounded-full h-12 w-12 shadow-sm hover:shadow-md"
+                  >
+                    {isPreparingImages ? <Loader2 className="h-5 w-5 animate-spin" /> : <Image className="h-5 w-5" />}
+                  </Button>
+                  <Button 
+                    type="button" 
+                    size="icon" 
+                    variant="outline" 
+                    onClick={() => attachmentInputRef.current?.click()} 
+                    title="Attach file"
+                    className="border border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300 text-gray-700 rounded-full h-12 w-12 shadow-sm hover:shadow-md"
+                  >
+                    <Paperclip className="h-5 w-5" />
+                  </Button>
+                  <Button 
+                    type="button" 
+                    size="icon" 
+                    variant="outline" 
+                    onClick={() => setShowCreatePoll(true)} 
+                    title="Create poll"
                     className="border border-gray-300 hover:bg-gray-50 hover:scale-110 transition-all duration-300 text-gray-700 rounded-full h-12 w-12 shadow-sm hover:shadow-md"
                   >
-                    <Image className="h-5 w-5" />
+                    <BarChart3 className="h-5 w-5" />
                   </Button>
+                  <VoiceRecorderButton onRecorded={sendVoiceNote} />
+                  <ScheduleSendButton disabled={!newMessage.trim()} onSchedule={scheduleMessage} />
                   <Button 
                     type="submit" 
-                    disabled={isLoading || !newMessage.trim()} 
+                    disabled={!newMessage.trim()} 
                     className="bg-blue-500 hover:bg-blue-600 text-white rounded-full px-6 py-3 hover:scale-110 transition-all duration-300 shadow-sm hover:shadow-md font-semibold h-12 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Send className="h-5 w-5 mr-2" />
@@ -1031,8 +3122,93 @@ const Chat = () => {
             </div>
           )}
         </div>
+
+        {/* Thread Panel */}
+        {threadRoot && (
+          <ThreadPanel
+            rootMessage={threadRoot}
+            replies={threadReplies}
+            currentUserId={user?.id}
+            isLoading={isThreadLoading}
+            onSendReply={sendThreadReply}
+            onClose={closeThread}
+          />
+        )}
       </div>
       
+      {/* Edit History Dialog */}
+      <EditHistoryDialog
+        message={historyMessageId ? [...messages, ...threadReplies].find(m => m.id === historyMessageId) ?? null : null}
+        onClose={() => setHistoryMessageId(null)}
+      />
+
+      <ImageLightbox
+        images={lightboxImages}
+        openImageId={lightboxImageId}
+        onClose={() => setLightboxImageId(null)}
+        onForward={forwardFromLightbox}
+        onJumpToMessage={jumpFromLightbox}
+      />
+
+      {user && (
+        <ForwardMessageDialog
+          message={messageToForward}
+          conversations={conversations}
+          currentUserId={user.id}
+          getConversationName={getConversationName}
+          onForward={forwardMessage}
+          onClose={() => setMessageToForward(null)}
+        />
+      )}
+
+      <CreatePollDialog
+        open={showCreatePoll}
+        onCreate={createPoll}
+        onClose={() => setShowCreatePoll(false)}
+      />
+
+      <ScheduledMessagesDialog
+        open={showScheduledList}
+        scheduledMessages={scheduledMessages}
+        onUpdate={updateScheduledMessage}
+        onCancel={cancelScheduledMessage}
+        onClose={() => setShowScheduledList(false)}
+      />
+
+      <PinnedMessagesDialog
+        open={showPinnedList}
+        pins={pinnedMessages}
+        getUserName={getParticipantName}
+        onUnpin={canManagePins ? (pin) => unpinMessage(pin.message_id) : undefined}
+        onJump={jumpToPin}
+        onClose={() => setShowPinnedList(false)}
+      />
+      
+      {/* Delete Message Dialog */}
+      <AlertDialog open={!!messageToDelete} onOpenChange={(open) => { if (!open) setMessageToDelete(null); }}>
+        <AlertDialogContent className="bg-white border-gray-200">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-gray-900">Delete message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {messageToDelete?.sender_id === user?.id && !messageToDelete?.deleted_at
+                ? 'Delete for everyone replaces the message with "This message was deleted" for all participants. Delete for me only hides it from your view.'
+                : 'The message will be hidden from your view. Other participants will still see it.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => confirmDeleteMessage('me')} className="bg-gray-700 hover:bg-gray-800">
+              Delete for me
+            </AlertDialogAction>
+            {messageToDelete?.sender_id === user?.id && !messageToDelete?.deleted_at && (
+              <AlertDialogAction onClick={() => confirmDeleteMessage('everyone')} className="bg-red-500 hover:bg-red-600">
+                Delete for everyone
+              </AlertDialogAction>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
       {/* Incoming Call Dialog */}
       <Dialog open={!!incomingCall} onOpenChange={() => setIncomingCall(null)}>
         <DialogContent className="w-[95vw] max-w-md mx-auto bg-white border-2 border-gray-200 shadow-lg backdrop-blur-xl rounded-2xl">
@@ -0,0 +1,134 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Deletes messages whose disappearing-messages timer has run out, together with their thread
+// replies and the chat-images, voice-notes and chat-files objects of both. Called every minute by the purge-expired-messages pg_cron job;
+// only requests carrying the service role key are accepted.
+
+const BATCH_SIZE = 500;
+const MAX_BATCHES = 20;
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Storage path of a chat-images attachment, taken from its URL
+const getChatImagePath = (imageUrl: string) => {
+  const marker = '/chat-images/';
+  const index = imageUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(imageUrl.slice(index + marker.length).split('?')[0]);
+};
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  let purged = 0;
+  for (let batch = 0; batch < MAX_BATCHES; batch++) {
+    const { data: expired, error } = await supabase
+      .from('messages')
+      .select('id, image_url, audio_path')
+      .lte('expires_at', new Date().toISOString())
+      .limit(BATCH_SIZE);
+    if (error) {
+      console.error('Error loading expired messages:', error);
+      return json({ error: 'Failed to load expired messages' }, 500);
+    }
+    if (!expired || expired.length === 0) break;
+
+    // Thread replies are cascade-deleted with their root even when their own timer runs
+    // longer, so their objects have to be removed along with the root's
+    const { data: replies, error: repliesError } = await supabase
+      .from('messages')
+      .select('id, image_url, audio_path')
+      .in('thread_root_id', expired.map(message => message.id));
+    if (repliesError) {
+      console.error('Error loading replies of expired messages:', repliesError);
+      return json({ error: 'Failed to load replies of expired messages', purged }, 500);
+    }
+    const doomed = [...expired, ...(replies || [])];
+    const doomedIds = new Set(doomed.map(message => message.id));
+
+    // Forwarded copies in conversations without a timer keep sharing the same object
+    const imageUrls = [...new Set(doomed.map(message => message.image_url).filter((url): url is string => !!url))];
+    let sharedUrls = new Set<string>();
+    if (imageUrls.length > 0) {
+      const { data: live, error: liveError } = await supabase
+        .from('messages')
+        .select('id, image_url')
+        .in('image_url', imageUrls)
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+      if (liveError) {
+        console.error('Error checking shared images:', liveError);
+        return json({ error: 'Failed to check shared images', purged }, 500);
+      }
+      // Replies going down with their root don't keep an image alive
+      sharedUrls = new Set((live || []).filter(message => !doomedIds.has(message.id)).map(message => message.image_url as string));
+    }
+
+    // Objects go first: if their removal fails the rows stay and the next run retries
+    const paths = imageUrls
+      .filter(url => !sharedUrls.has(url))
+      .map(getChatImagePath)
+      .filter((path): path is string => !!path);
+    if (paths.length > 0) {
+      const { error: storageError } = await supabase.storage.from('chat-images').remove(paths);
+      if (storageError) {
+        console.error('Error removing expired images:', storageError);
+        return json({ error: 'Failed to remove expired images', purged }, 500);
+      }
+    }
+
+    // Voice notes cannot be forwarded, so every recording belongs to exactly one message
+    const audioPaths = doomed.map(message => message.audio_path).filter((path): path is string => !!path);
+    if (audioPaths.length > 0) {
+      const { error: audioError } = await supabase.storage.from('voice-notes').remove(audioPaths);
+      if (audioError) {
+        console.error('Error removing expired voice messages:', audioError);
+        return json({ error: 'Failed to remove expired voice messages', purged }, 500);
+      }
+    }
+
+    // Attachment rows go with the messages, so collect their objects first
+    const { data: attachments, error: attachmentsError } = await supabase
+      .from('message_attachments')
+      .select('storage_path')
+      .in('message_id', [...doomedIds]);
+    if (attachmentsError) {
+      console.error('Error loading expired attachments:', attachmentsError);
+      return json({ error: 'Failed to load expired attachments', purged }, 500);
+    }
+    const attachmentPaths = (attachments || []).map(attachment => attachment.storage_path);
+    if (attachmentPaths.length > 0) {
+      const { error: filesError } = await supabase.storage.from('chat-files').remove(attachmentPaths);
+      if (filesError) {
+        console.error('Error removing expired attachments:', filesError);
+        return json({ error: 'Failed to remove expired attachments', purged }, 500);
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('messages')
+      .delete()
+      .in('id', expired.map(message => message.id));
+    if (deleteError) {
+      console.error('Error deleting expired messages:', deleteError);
+      return json({ error: 'Failed to delete expired messages', purged }, 500);
+    }
+
+    purged += doomed.length;
+    if (expired.length < BATCH_SIZE) break;
+  }
+
+  return json({ purged });
+});
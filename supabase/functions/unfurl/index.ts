@@ -0,0 +1,78 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DEFAULT_FETCH_OPTIONS, UnfurlError, unfurl, validateUrl } from './metadata.ts';
+
+// Returns the link preview for a URL, from the link_previews cache when it is fresh enough.
+// Set UNFURL_ALLOW_PRIVATE_HOSTS=true when serving locally to unfurl pages from a fixture
+// server on localhost; it must stay unset in production.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SUCCESS_TTL_MS = 24 * 60 * 60 * 1000;
+const FAILURE_TTL_MS = 60 * 60 * 1000;
+
+const fetchOptions = {
+  ...DEFAULT_FETCH_OPTIONS,
+  allowPrivateHosts: Deno.env.get('UNFURL_ALLOW_PRIVATE_HOSTS') === 'true',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  let url: string;
+  try {
+    const body = await req.json();
+    url = validateUrl(String(body?.url ?? '')).href;
+  } catch (error) {
+    return json({ error: error instanceof UnfurlError ? error.message : 'Invalid request body' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  );
+
+  const { data: cached, error: cacheError } = await supabase
+    .from('link_previews')
+    .select('*')
+    .eq('url', url)
+    .maybeSingle();
+  if (cacheError) console.error('Error reading link preview cache:', cacheError);
+
+  if (cached) {
+    const age = Date.now() - new Date(cached.fetched_at).getTime();
+    if (age < (cached.error ? FAILURE_TTL_MS : SUCCESS_TTL_MS)) {
+      return json({ preview: cached.error || !cached.title ? null : cached });
+    }
+  }
+
+  let row;
+  try {
+    const metadata = await unfurl(url, fetchOptions);
+    row = { url, ...metadata, error: null, fetched_at: new Date().toISOString() };
+  } catch (error) {
+    // Network and parsing failures are cached so a dead link is not refetched on every render
+    const message = error instanceof UnfurlError ? error.message : 'Fetch failed';
+    if (!(error instanceof UnfurlError)) console.error('Error unfurling', url, error);
+    row = { url, title: null, description: null, image_url: null, site_name: null, error: message, fetched_at: new Date().toISOString() };
+  }
+
+  const { error: upsertError } = await supabase.from('link_previews').upsert(row);
+  if (upsertError) console.error('Error caching link preview:', upsertError);
+
+  return json({ preview: row.error || !row.title ? null : row });
+});
@@ -0,0 +1,149 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { DEFAULT_FETCH_OPTIONS, UnfurlError, unfurl } from './metadata.ts';
+
+// Run with: deno test --allow-net supabase/functions/unfurl/metadata.test.ts
+
+const LOCAL_OPTIONS = { ...DEFAULT_FETCH_OPTIONS, timeoutMs: 1000, allowPrivateHosts: true };
+
+const html = (head: string) =>
+  new Response(`<!doctype html><html><head>${head}</head><body></body></html>`, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+
+const FIXTURES: Record<string, () => Response | Promise<Response>> = {
+  '/og': () => html(`
+    <meta property="og:title" content="Fixture &amp; friends">
+    <meta property="og:description" content="  An   OpenGraph page ">
+    <meta property="og:image" content="/cover.png">
+    <meta property="og:site_name" content="Fixtures">
+    <title>Ignored title</title>
+  `),
+  '/twitter': () => html(`
+    <meta name="twitter:title" content="Twitter title">
+    <meta name="twitter:description" content="Twitter description">
+    <meta name="twitter:image" content="https://cdn.example.com/card.jpg">
+  `),
+  '/title-only': () => html('<title>Just a title</title><meta name="description" content="Plain description">'),
+  // A streamed body goes out with chunked transfer encoding
+  '/chunked': () => new Response(
+    ReadableStream.from(['<html><head>', '<title>Streamed ', 'in chunks</title>', '</head></html>'].map(part => new TextEncoder().encode(part))),
+    { headers: { 'Content-Type': 'text/html' } },
+  ),
+  '/redirect': () => new Response(null, { status: 302, headers: { Location: '/og' } }),
+  '/redirect-loop': () => new Response(null, { status: 302, headers: { Location: '/redirect-loop' } }),
+  '/large': () => html(`${'<!-- padding -->'.repeat(4096)}<meta property="og:title" content="Past the cap">`),
+  '/slow': () => new Promise(resolve => setTimeout(() => resolve(html('<title>Too late</title>')), 1500)),
+  '/not-html': () => new Response('{}', { headers: { 'Content-Type': 'application/json' } }),
+};
+
+// Serves the fixtures on a random local port for the duration of one test
+const withFixtureServer = async (test: (baseUrl: string) => Promise<void>) => {
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, (req) => {
+    const fixture = FIXTURES[new URL(req.url).pathname];
+    return fixture ? fixture() : new Response('Not found', { status: 404 });
+  });
+  try {
+    await test(`http://127.0.0.1:${server.addr.port}`);
+  } finally {
+    await server.shutdown();
+  }
+};
+
+Deno.test('extracts OpenGraph metadata', () =>
+  withFixtureServer(async (baseUrl) => {
+    assertEquals(await unfurl(`${baseUrl}/og`, LOCAL_OPTIONS), {
+      title: 'Fixture & friends',
+      description: 'An OpenGraph page',
+      image_url: `${baseUrl}/cover.png`,
+      site_name: 'Fixtures',
+    });
+  }));
+
+Deno.test('falls back to Twitter card metadata', () =>
+  withFixtureServer(async (baseUrl) => {
+    assertEquals(await unfurl(`${baseUrl}/twitter`, LOCAL_OPTIONS), {
+      title: 'Twitter title',
+      description: 'Twitter description',
+      image_url: 'https://cdn.example.com/card.jpg',
+      site_name: '127.0.0.1',
+    });
+  }));
+
+Deno.test('falls back to the document title and description', () =>
+  withFixtureServer(async (baseUrl) => {
+    const metadata = await unfurl(`${baseUrl}/title-only`, LOCAL_OPTIONS);
+    assertEquals(metadata.title, 'Just a title');
+    assertEquals(metadata.description, 'Plain description');
+    assertEquals(metadata.image_url, null);
+  }));
+
+Deno.test('reads chunked responses', () =>
+  withFixtureServer(async (baseUrl) => {
+    assertEquals((await unfurl(`${baseUrl}/chunked`, LOCAL_OPTIONS)).title, 'Streamed in chunks');
+  }));
+
+Deno.test('follows redirects and resolves against the final URL', () =>
+  withFixtureServer(async (baseUrl) => {
+    const metadata = await unfurl(`${baseUrl}/redirect`, LOCAL_OPTIONS);
+    assertEquals(metadata.title, 'Fixture & friends');
+    assertEquals(metadata.image_url, `${baseUrl}/cover.png`);
+  }));
+
+Deno.test('gives up after too many redirects', () =>
+  withFixtureServer(async (baseUrl) => {
+    await assertRejects(() => unfurl(`${baseUrl}/redirect-loop`, LOCAL_OPTIONS), UnfurlError, 'Too many redirects');
+  }));
+
+Deno.test('reads no more than the byte cap', () =>
+  withFixtureServer(async (baseUrl) => {
+    const metadata = await unfurl(`${baseUrl}/large`, { ...LOCAL_OPTIONS, maxBytes: 16 * 1024 });
+    assertEquals(metadata.title, null);
+  }));
+
+Deno.test('times out on slow pages', () =>
+  withFixtureServer(async (baseUrl) => {
+    await assertRejects(() => unfurl(`${baseUrl}/slow`, { ...LOCAL_OPTIONS, timeoutMs: 200 }), UnfurlError, 'Timed out');
+  }));
+
+Deno.test('rejects responses that are not HTML', () =>
+  withFixtureServer(async (baseUrl) => {
+    await assertRejects(() => unfurl(`${baseUrl}/not-html`, LOCAL_OPTIONS), UnfurlError, 'Not an HTML page');
+  }));
+
+Deno.test('rejects private and loopback hosts', async () => {
+  const hosts = [
+    'http://localhost/',
+    'http://127.0.0.1/',
+    'http://2130706433/',
+    'http://10.0.0.1/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[::1]/',
+    'http://[::]/',
+    'http://[fd00::1]/',
+    'http://[fe80::1]/',
+    'http://[fec0::1]/',
+  ];
+  for (const host of hosts) {
+    await assertRejects(() => unfurl(host), UnfurlError, 'Host not allowed', host);
+  }
+});
+
+Deno.test('rejects IPv6 addresses that embed a private IPv4 address', async () => {
+  const hosts = [
+    // IPv4-mapped, which URL normalizes to hex groups such as [::ffff:a9fe:a9fe]
+    'http://[::ffff:169.254.169.254]/',
+    'http://[::ffff:7f00:1]/',
+    'http://[::ffff:10.0.0.1]/',
+    // IPv4-compatible
+    'http://[::127.0.0.1]/',
+    'http://[::7f00:1]/',
+    'http://[::8.8.8.8]/',
+    // NAT64 and 6to4
+    'http://[64:ff9b::169.254.169.254]/',
+    'http://[64:ff9b:1::1]/',
+    'http://[2002:7f00:1::]/',
+  ];
+  for (const host of hosts) {
+    await assertRejects(() => unfurl(host), UnfurlError, 'Host not allowed', host);
+  }
+});
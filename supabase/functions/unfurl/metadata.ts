@@ -0,0 +1,284 @@
+import { pinnedFetch } from './pinnedFetch.ts';
+
+// Fetches a page and extracts its OpenGraph / Twitter card metadata.
+// Kept free of Supabase specifics so it can be exercised against a local fixture server.
+
+export interface LinkMetadata {
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+export interface FetchOptions {
+  timeoutMs: number;
+  maxBytes: number;
+  maxRedirects: number;
+  // Only for local testing: lets the fetcher reach localhost and private networks
+  allowPrivateHosts: boolean;
+}
+
+export const DEFAULT_FETCH_OPTIONS: FetchOptions = {
+  timeoutMs: 5000,
+  maxBytes: 512 * 1024,
+  maxRedirects: 3,
+  allowPrivateHosts: false,
+};
+
+export class UnfurlError extends Error {}
+
+const MAX_TEXT_LENGTH = 300;
+
+// The four bytes of a dotted IPv4 address, or null when it is not one
+const parseIPv4 = (address: string) => {
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) return null;
+  const bytes = address.split('.').map(Number);
+  return bytes.every(byte => byte <= 255) ? bytes : null;
+};
+
+// The sixteen bytes of an IPv6 address, or null when it is not one
+const parseIPv6 = (address: string) => {
+  let text = address.toLowerCase().split('%')[0];
+  // A trailing dotted IPv4 part stands for the last two groups
+  let tail: number[] = [];
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIPv4(dotted[2]);
+    if (!v4) return null;
+    tail = [(v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3]];
+    text = dotted[1].endsWith('::') ? dotted[1] : dotted[1].slice(0, -1);
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const parseGroups = (part: string) =>
+    part === '' ? [] : part.split(':').map(group => (/^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN));
+  const head = parseGroups(halves[0]);
+  const rest = halves.length === 2 ? parseGroups(halves[1]) : [];
+  if ([...head, ...rest].some(Number.isNaN)) return null;
+
+  const missing = 8 - head.length - rest.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...new Array<number>(halves.length === 2 ? missing : 0).fill(0), ...rest, ...tail];
+  return groups.flatMap(group => [group >> 8, group & 0xff]);
+};
+
+const isPrivateIPv4 = ([a, b, c]: number[]) =>
+  a === 0 || a === 10 || a === 127
+  || (a === 100 && b >= 64 && b <= 127)
+  || (a === 169 && b === 254)
+  || (a === 172 && b >= 16 && b <= 31)
+  || (a === 192 && b === 0 && c === 0)
+  || (a === 192 && b === 168)
+  || (a === 198 && (b === 18 || b === 19))
+  || a >= 224;
+
+const isPrivateIPv6 = (bytes: number[]) => {
+  const isZero = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+  const isNat64 = bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b;
+  const embeddedIPv4 = bytes.slice(12);
+
+  // ::/96 covers the unspecified and loopback addresses and the deprecated IPv4-compatible range
+  if (isZero(0, 12)) return true;
+  // IPv4-mapped ::ffff:0:0/96 and NAT64 64:ff9b::/96 reach the IPv4 address in their last four bytes
+  if (isZero(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return isPrivateIPv4(embeddedIPv4);
+  if (isNat64 && isZero(4, 12)) return isPrivateIPv4(embeddedIPv4);
+  // Local-use NAT64 64:ff9b:1::/48 only translates into private networks
+  if (isNat64 && bytes[4] === 0x00 && bytes[5] === 0x01) return true;
+  // 6to4 2002::/16 embeds the IPv4 address right after the prefix
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return isPrivateIPv4(bytes.slice(2, 6));
+  // Teredo 2001::/32 tunnels to an obfuscated IPv4 address
+  if (bytes[0] === 0x20 && bytes[1] === 0x01 && isZero(2, 4)) return true;
+  return (bytes[0] & 0xfe) === 0xfc // fc00::/7 unique local
+    || (bytes[0] === 0xfe && (bytes[1] & 0x80) === 0x80) // fe80::/10 link-local, fec0::/10 site-local
+    || bytes[0] === 0xff; // multicast
+};
+
+// Anything that does not parse is treated as private
+const isPrivateAddress = (address: string) => {
+  const v4 = parseIPv4(address);
+  if (v4) return isPrivateIPv4(v4);
+  const v6 = parseIPv6(address);
+  return v6 ? isPrivateIPv6(v6) : true;
+};
+
+// Resolves the host to the address the page is fetched from, refusing anything in localhost
+// or a private network so the function cannot be used to probe infrastructure behind it
+const resolveAddress = async (url: URL, allowPrivateHosts: boolean) => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    if (allowPrivateHosts && hostname === 'localhost') return '127.0.0.1';
+    throw new UnfurlError('Host not allowed');
+  }
+
+  let addresses: string[];
+  if (parseIPv4(hostname) || hostname.includes(':')) {
+    addresses = [hostname];
+  } else {
+    const [v4, v6] = await Promise.all([
+      Deno.resolveDns(hostname, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(hostname, 'AAAA').catch(() => [] as string[]),
+    ]);
+    addresses = [...v4, ...v6];
+  }
+
+  if (addresses.length === 0) throw new UnfurlError('Host could not be resolved');
+  if (!allowPrivateHosts && addresses.some(isPrivateAddress)) {
+    throw new UnfurlError('Host not allowed');
+  }
+  return addresses[0];
+};
+
+export const validateUrl = (rawUrl: string) => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new UnfurlError('Invalid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new UnfurlError('Unsupported protocol');
+  if (url.username || url.password) throw new UnfurlError('Credentials in URLs are not allowed');
+  url.hash = '';
+  return url;
+};
+
+// Reads at most maxBytes of the body; metadata lives in <head>, so a truncated page is fine
+const readLimitedText = async (response: Response, maxBytes: number) => {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+  }
+  await reader.cancel().catch(() => {});
+
+  const buffer = new Uint8Array(Math.min(received, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const slice = chunk.subarray(0, buffer.length - offset);
+    buffer.set(slice, offset);
+    offset += slice.length;
+    if (offset >= buffer.length) break;
+  }
+  return new TextDecoder().decode(buffer);
+};
+
+// Follows redirects by hand so every hop is checked against the host rules
+export const fetchHtml = async (startUrl: URL, options: FetchOptions) => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+  try {
+    let url = startUrl;
+    for (let hop = 0; hop <= options.maxRedirects; hop++) {
+      // Connecting to the checked address, not the hostname, keeps a second DNS answer out of it
+      const address = await resolveAddress(url, options.allowPrivateHosts);
+      const response = await pinnedFetch(url, address, {
+        signal: controller.signal,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; ChatLinkPreview/1.0)',
+          'Accept': 'text/html,application/xhtml+xml',
+        },
+      });
+
+      if (response.status >= 300 && response.status < 400) {
+        await response.body?.cancel();
+        const location = response.headers.get('location');
+        if (!location) throw new UnfurlError('Redirect without location');
+        url = validateUrl(new URL(location, url).href);
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new UnfurlError(`Upstream responded with ${response.status}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+        await response.body?.cancel();
+        throw new UnfurlError('Not an HTML page');
+      }
+
+      const contentLength = Number(response.headers.get('content-length'));
+      if (contentLength > options.maxBytes * 20) {
+        await response.body?.cancel();
+        throw new UnfurlError('Page too large');
+      }
+
+      return { html: await readLimitedText(response, options.maxBytes), finalUrl: url };
+    }
+    throw new UnfurlError('Too many redirects');
+  } catch (error) {
+    // Aborting closes the connection, which can surface as a read error rather than an AbortError
+    if (controller.signal.aborted) throw new UnfurlError('Timed out');
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const cleanText = (text: string | undefined) => {
+  if (!text) return null;
+  const cleaned = decodeEntities(text).replace(/\s+/g, ' ').trim();
+  return cleaned ? cleaned.slice(0, MAX_TEXT_LENGTH) : null;
+};
+
+const parseAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+};
+
+const resolveImageUrl = (rawUrl: string | undefined, baseUrl: URL) => {
+  if (!rawUrl) return null;
+  try {
+    const url = new URL(decodeEntities(rawUrl.trim()), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseMetadata = (html: string, baseUrl: URL): LinkMetadata => {
+  const meta: Record<string, string> = {};
+  for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    // First occurrence wins, like most unfurlers
+    if (key && attributes.content !== undefined && !(key in meta)) meta[key] = attributes.content;
+  }
+  const documentTitle = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  return {
+    title: cleanText(meta['og:title'] || meta['twitter:title'] || documentTitle),
+    description: cleanText(meta['og:description'] || meta['twitter:description'] || meta['description']),
+    image_url: resolveImageUrl(meta['og:image'] || meta['og:image:url'] || meta['twitter:image'] || meta['twitter:image:src'], baseUrl),
+    site_name: cleanText(meta['og:site_name']) || baseUrl.hostname.replace(/^www\./, ''),
+  };
+};
+
+export const unfurl = async (rawUrl: string, options: FetchOptions = DEFAULT_FETCH_OPTIONS) => {
+  const { html, finalUrl } = await fetchHtml(validateUrl(rawUrl), options);
+  return parseMetadata(html, finalUrl);
+};
@@ -0,0 +1,168 @@
+// A minimal HTTP/1.1 GET that connects to an address picked by the caller instead of resolving
+// the URL's host again. fetch() does its own lookup, which a rebinding DNS server can answer
+// with a private address after the checked one; here the checked address is the one dialled.
+// TLS is still verified against the URL's hostname.
+
+interface PinnedFetchOptions {
+  headers: Record<string, string>;
+  signal: AbortSignal;
+}
+
+const CRLF = new Uint8Array([13, 10]);
+const HEAD_END = new Uint8Array([13, 10, 13, 10]);
+const MAX_HEAD_BYTES = 64 * 1024;
+const MAX_CHUNK_LINE_BYTES = 1024;
+const READ_SIZE = 64 * 1024;
+
+const indexOf = (haystack: Uint8Array, needle: Uint8Array) => {
+  for (let i = 0; i <= haystack.length - needle.length; i++) {
+    let j = 0;
+    while (j < needle.length && haystack[i + j] === needle[j]) j++;
+    if (j === needle.length) return i;
+  }
+  return -1;
+};
+
+// Reads from the connection through a buffer, so the header block and chunk framing can be
+// split off without losing the bytes that follow them
+const bufferedReader = (stream: ReadableStream<Uint8Array>) => {
+  const reader = stream.getReader();
+  let buffered = new Uint8Array(0);
+
+  const fill = async () => {
+    const { done, value } = await reader.read();
+    if (done) return false;
+    const next = new Uint8Array(buffered.length + value.length);
+    next.set(buffered);
+    next.set(value, buffered.length);
+    buffered = next;
+    return true;
+  };
+
+  // Bytes before the delimiter, which is consumed; null if the stream ends or limit bytes pass first
+  const readUntil = async (delimiter: Uint8Array, limit: number) => {
+    let index;
+    while ((index = indexOf(buffered, delimiter)) === -1) {
+      if (buffered.length > limit || !(await fill())) return null;
+    }
+    const before = buffered.subarray(0, index);
+    buffered = buffered.subarray(index + delimiter.length);
+    return before;
+  };
+
+  // Up to max bytes; empty once the stream is exhausted
+  const read = async (max: number) => {
+    if (buffered.length === 0 && !(await fill())) return new Uint8Array(0);
+    const chunk = buffered.subarray(0, max);
+    buffered = buffered.subarray(chunk.length);
+    return chunk;
+  };
+
+  return { readUntil, read };
+};
+
+type BufferedReader = ReturnType<typeof bufferedReader>;
+
+const decoder = new TextDecoder();
+
+async function* readBody(source: BufferedReader, headers: Headers, close: () => void) {
+  try {
+    if (/chunked/i.test(headers.get('transfer-encoding') ?? '')) {
+      while (true) {
+        const sizeLine = await source.readUntil(CRLF, MAX_CHUNK_LINE_BYTES);
+        if (sizeLine === null) throw new Error('Truncated chunked body');
+        const size = parseInt(decoder.decode(sizeLine).split(';')[0].trim(), 16);
+        if (!Number.isFinite(size)) throw new Error('Malformed chunk size');
+        if (size === 0) return;
+        for (let remaining = size; remaining > 0;) {
+          const chunk = await source.read(remaining);
+          if (chunk.length === 0) throw new Error('Truncated chunked body');
+          remaining -= chunk.length;
+          yield chunk;
+        }
+        if ((await source.readUntil(CRLF, CRLF.length)) === null) throw new Error('Malformed chunk');
+      }
+    }
+
+    // Without a length the body runs until the server closes the connection
+    const contentLength = headers.get('content-length');
+    for (let remaining = contentLength === null ? Infinity : Number(contentLength); remaining > 0;) {
+      const chunk = await source.read(Math.min(remaining, READ_SIZE));
+      if (chunk.length === 0) return;
+      remaining -= chunk.length;
+      yield chunk;
+    }
+  } finally {
+    close();
+  }
+}
+
+const parseHead = (head: string) => {
+  const [statusLine, ...headerLines] = head.split('\r\n');
+  const status = Number(statusLine.match(/^HTTP\/1\.[01] (\d{3})/)?.[1]);
+  if (!(status >= 200 && status <= 599)) throw new Error('Malformed response');
+  const headers = new Headers();
+  for (const line of headerLines) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    try {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    } catch {
+      // Skip headers the Headers class rejects rather than failing the whole page
+    }
+  }
+  return { status, headers };
+};
+
+export const pinnedFetch = async (url: URL, address: string, { headers, signal }: PinnedFetchOptions) => {
+  signal.throwIfAborted();
+  const port = Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+  const tcpConn = await Deno.connect({ hostname: address, port });
+  let conn: Deno.Conn = tcpConn;
+
+  const close = () => {
+    signal.removeEventListener('abort', close);
+    try {
+      conn.close();
+    } catch {
+      // Already closed
+    }
+  };
+  signal.addEventListener('abort', close, { once: true });
+
+  try {
+    if (url.protocol === 'https:') {
+      conn = await Deno.startTls(tcpConn, { hostname: url.hostname.replace(/^\[|\]$/g, '') });
+    }
+
+    const requestHeaders = {
+      ...headers,
+      'Host': url.host,
+      'Connection': 'close',
+      'Accept-Encoding': 'identity',
+    };
+    const request = new TextEncoder().encode(
+      `GET ${url.pathname}${url.search} HTTP/1.1\r\n`
+      + Object.entries(requestHeaders).map(([name, value]) => `${name}: ${value}\r\n`).join('')
+      + '\r\n',
+    );
+    for (let written = 0; written < request.length;) {
+      written += await conn.write(request.subarray(written));
+    }
+
+    const source = bufferedReader(conn.readable);
+    const head = await source.readUntil(HEAD_END, MAX_HEAD_BYTES);
+    if (head === null) throw new Error('Malformed response');
+    const { status, headers: responseHeaders } = parseHead(decoder.decode(head));
+
+    const hasBody = status !== 204 && status !== 304;
+    if (!hasBody) close();
+    return new Response(hasBody ? ReadableStream.from(readBody(source, responseHeaders, close)) : null, {
+      status,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    close();
+    throw signal.aborted ? signal.reason : error;
+  }
+};
@@ -0,0 +1,69 @@
+-- Add thread support to messages: replies point at the top-level message they belong to
+ALTER TABLE public.messages
+  ADD COLUMN thread_root_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  ADD COLUMN reply_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_reply_at TIMESTAMP WITH TIME ZONE;
+
+-- Index for loading a thread's replies in order
+CREATE INDEX idx_messages_thread_root_id ON public.messages (thread_root_id, created_at)
+WHERE thread_root_id IS NOT NULL;
+
+-- Replies must stay in the root's conversation, and threads are only one level deep
+CREATE OR REPLACE FUNCTION public.validate_thread_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+  root_record public.messages%ROWTYPE;
+BEGIN
+  IF NEW.thread_root_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO root_record FROM public.messages WHERE id = NEW.thread_root_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thread root % does not exist', NEW.thread_root_id;
+  END IF;
+
+  IF root_record.conversation_id <> NEW.conversation_id THEN
+    RAISE EXCEPTION 'Thread replies must belong to the same conversation as their root';
+  END IF;
+
+  IF root_record.thread_root_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot reply to a thread reply';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_thread_reply_before_insert
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_thread_reply();
+
+-- Keep reply_count and last_reply_at on the root in sync so clients get them through realtime UPDATEs
+CREATE OR REPLACE FUNCTION public.update_thread_reply_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.thread_root_id IS NOT NULL THEN
+    UPDATE public.messages
+    SET reply_count = reply_count + 1,
+        last_reply_at = NEW.created_at
+    WHERE id = NEW.thread_root_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.thread_root_id IS NOT NULL THEN
+    UPDATE public.messages
+    SET reply_count = GREATEST(reply_count - 1, 0),
+        last_reply_at = (
+          SELECT max(created_at) FROM public.messages
+          WHERE thread_root_id = OLD.thread_root_id
+        )
+    WHERE id = OLD.thread_root_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_thread_reply_count_after_change
+  AFTER INSERT OR DELETE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_thread_reply_count();
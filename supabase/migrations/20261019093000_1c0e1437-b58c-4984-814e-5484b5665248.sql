@@ -0,0 +1,32 @@
+-- Add quoted (inline) replies to messages.
+-- Deliberately not a foreign key: when the original is deleted the reference is kept
+-- so clients can render an "original message deleted" placeholder.
+ALTER TABLE public.messages ADD COLUMN quoted_message_id UUID;
+
+CREATE INDEX idx_messages_quoted_message_id ON public.messages (quoted_message_id)
+WHERE quoted_message_id IS NOT NULL;
+
+-- A quoted message must exist in the same conversation when the reply is sent
+CREATE OR REPLACE FUNCTION public.validate_quoted_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.quoted_message_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = NEW.quoted_message_id
+    AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Quoted message must belong to the same conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_quoted_message_before_insert
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_quoted_message();
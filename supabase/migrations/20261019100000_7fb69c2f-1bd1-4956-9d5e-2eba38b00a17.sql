@@ -0,0 +1,10 @@
+-- Keyset pagination for the message list: newest top-level messages first, (created_at, id) as the cursor
+CREATE INDEX idx_messages_conversation_page ON public.messages (conversation_id, created_at DESC, id DESC)
+WHERE thread_root_id IS NULL;
+
+-- Let PostgREST embed the sender profile so a page of messages loads in one request.
+-- NOT VALID keeps the migration from failing on legacy rows whose sender has no profile.
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_sender_id_profiles_fkey
+  FOREIGN KEY (sender_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE
+  NOT VALID;
@@ -0,0 +1,52 @@
+-- Full-text search over message content.
+-- The 'simple' configuration avoids English-only stemming since conversations are multilingual.
+CREATE INDEX idx_messages_content_fts ON public.messages
+USING GIN (to_tsvector('simple', coalesce(content, '')));
+
+-- Search every conversation the caller participates in, ranked, with highlighted snippets.
+-- Matches are wrapped in « » so clients can highlight them without rendering HTML.
+CREATE OR REPLACE FUNCTION public.search_messages(
+  search_query TEXT,
+  sender_filter UUID DEFAULT NULL,
+  from_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  to_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  type_filter TEXT DEFAULT NULL,
+  result_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  message_id UUID,
+  conversation_id UUID,
+  sender_id UUID,
+  message_type TEXT,
+  thread_root_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  snippet TEXT,
+  rank REAL
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('simple', search_query) AS tsq
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.message_type,
+    m.thread_root_id,
+    m.created_at,
+    ts_headline('simple', m.content, query.tsq, 'StartSel=«, StopSel=», MaxWords=24, MinWords=8, MaxFragments=2'),
+    ts_rank(to_tsvector('simple', coalesce(m.content, '')), query.tsq)
+  FROM public.messages m, query
+  WHERE to_tsvector('simple', coalesce(m.content, '')) @@ query.tsq
+    -- Same participant rule as the "Users can view messages in their conversations" policy
+    AND EXISTS (
+      SELECT 1 FROM public.conversation_participants cp
+      WHERE cp.conversation_id = m.conversation_id
+      AND cp.user_id = auth.uid()
+    )
+    AND (sender_filter IS NULL OR m.sender_id = sender_filter)
+    AND (from_date IS NULL OR m.created_at >= from_date)
+    AND (to_date IS NULL OR m.created_at < to_date)
+    AND (type_filter IS NULL OR m.message_type = type_filter)
+  ORDER BY 8 DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(result_limit, 1), 100);
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,68 @@
+-- Move reactions out of the messages.reactions JSONB array into their own table,
+-- so concurrent reactions no longer overwrite each other
+CREATE TABLE public.message_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  -- Denormalized from the message so realtime subscriptions and RLS can filter by conversation
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id, emoji)
+);
+
+CREATE INDEX idx_message_reactions_message_id ON public.message_reactions (message_id);
+
+-- Always take conversation_id from the reacted message rather than trusting the client
+CREATE OR REPLACE FUNCTION public.set_reaction_conversation_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_reaction_conversation_id_before_insert
+  BEFORE INSERT ON public.message_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_reaction_conversation_id();
+
+-- Enable RLS on message_reactions
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reactions in their conversations"
+ON public.message_reactions
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Users can react to messages in their conversations"
+ON public.message_reactions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Users can remove their own reactions"
+ON public.message_reactions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Copy existing JSONB reactions over, skipping malformed entries and users that no longer exist
+INSERT INTO public.message_reactions (message_id, conversation_id, user_id, emoji)
+SELECT m.id, m.conversation_id, (r ->> 'user_id')::uuid, r ->> 'emoji'
+FROM public.messages m
+CROSS JOIN LATERAL jsonb_array_elements(m.reactions) AS r
+WHERE jsonb_typeof(m.reactions) = 'array'
+  AND r ->> 'emoji' IS NOT NULL
+  AND (r ->> 'user_id') ~* '^[0-9a-f-]{36}$'
+  AND EXISTS (SELECT 1 FROM auth.users u WHERE u.id = (r ->> 'user_id')::uuid)
+ON CONFLICT (message_id, user_id, emoji) DO NOTHING;
+
+ALTER TABLE public.messages DROP COLUMN reactions;
+
+-- Enable realtime for reaction add/remove events
+ALTER TABLE public.message_reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
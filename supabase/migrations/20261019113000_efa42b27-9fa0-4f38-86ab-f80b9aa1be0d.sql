@@ -0,0 +1,54 @@
+-- Replace per-message seen_by arrays with one read cursor per participant
+ALTER TABLE public.conversation_participants
+  ADD COLUMN last_read_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  ADD COLUMN last_read_at TIMESTAMP WITH TIME ZONE;
+
+-- Carry over existing state: a participant has read up to the latest message they saw or sent
+UPDATE public.conversation_participants cp
+SET (last_read_message_id, last_read_at) = (
+  SELECT m.id, m.created_at
+  FROM public.messages m
+  WHERE m.conversation_id = cp.conversation_id
+    AND (m.sender_id = cp.user_id OR m.seen_by ? cp.user_id::text)
+  ORDER BY m.created_at DESC
+  LIMIT 1
+);
+
+-- Advance the caller's cursor to the given message (or the latest one). Cursors never move backwards.
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(conversation_uuid UUID, message_uuid UUID DEFAULT NULL)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  target_id UUID;
+  target_created_at TIMESTAMP WITH TIME ZONE;
+  result_read_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT public.is_conversation_participant(conversation_uuid, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT id, created_at INTO target_id, target_created_at
+  FROM public.messages
+  WHERE conversation_id = conversation_uuid
+    AND (message_uuid IS NULL OR id = message_uuid)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF target_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET last_read_message_id = target_id,
+      last_read_at = target_created_at
+  WHERE conversation_id = conversation_uuid
+    AND user_id = auth.uid()
+    AND (last_read_at IS NULL OR last_read_at < target_created_at)
+  RETURNING last_read_at INTO result_read_at;
+
+  RETURN coalesce(result_read_at, target_created_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- seen_by is superseded by the read cursors
+DROP INDEX IF EXISTS public.idx_messages_seen_by;
+ALTER TABLE public.messages DROP COLUMN seen_by;
@@ -0,0 +1,72 @@
+-- Index for finding the latest top-level message and counting unread messages per conversation
+CREATE INDEX idx_messages_conversation_latest ON public.messages (conversation_id, created_at DESC)
+WHERE thread_root_id IS NULL;
+
+-- Short sidebar preview for a message, shared by everything that lists conversations
+CREATE OR REPLACE FUNCTION public.message_preview(message_type TEXT, content TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE message_type
+    WHEN 'image' THEN '📷 Photo'
+    WHEN 'call_info' THEN '📞 Call'
+    ELSE left(coalesce(content, ''), 120)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Every conversation of the caller with participants, last message and unread count,
+-- most recently active first. Replaces the per-conversation queries the client used to run.
+CREATE OR REPLACE FUNCTION public.get_my_conversations()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  is_group BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  participants JSONB,
+  last_message_id UUID,
+  last_message_preview TEXT,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count INTEGER
+) AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.is_group,
+    c.created_at,
+    (
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'user_id', p.user_id,
+        'username', p.username,
+        'display_name', p.display_name,
+        'avatar_url', p.avatar_url,
+        'last_seen', p.last_seen
+      )), '[]'::jsonb)
+      FROM public.conversation_participants cp
+      JOIN public.profiles p ON p.user_id = cp.user_id
+      WHERE cp.conversation_id = c.id
+    ),
+    last_message.id,
+    public.message_preview(last_message.message_type, last_message.content),
+    last_message.sender_id,
+    last_message.created_at,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.messages m
+      WHERE m.conversation_id = c.id
+        AND m.thread_root_id IS NULL
+        AND m.sender_id <> auth.uid()
+        AND (me.last_read_at IS NULL OR m.created_at > me.last_read_at)
+    )
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.message_type, m.content, m.sender_id, m.created_at
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.thread_root_id IS NULL
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE me.user_id = auth.uid()
+  ORDER BY coalesce(last_message.created_at, c.created_at) DESC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
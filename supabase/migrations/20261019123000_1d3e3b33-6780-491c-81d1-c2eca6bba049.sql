@@ -0,0 +1,49 @@
+-- Track message edits: edited_at on the message plus the full history of prior versions
+ALTER TABLE public.messages ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.message_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  previous_content TEXT,
+  edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  edited_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_edits_message_id ON public.message_edits (message_id, edited_at DESC);
+
+-- Enable RLS on message_edits. Rows are only ever written by the trigger below.
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view edit history in their conversations"
+ON public.message_edits
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- Senders can edit their own messages
+CREATE POLICY "Users can edit their own messages"
+ON public.messages
+FOR UPDATE
+USING (auth.uid() = sender_id)
+WITH CHECK (auth.uid() = sender_id);
+
+-- Save the previous version whenever content changes, so edits cannot be made without a trace
+CREATE OR REPLACE FUNCTION public.record_message_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.message_edits (message_id, conversation_id, previous_content, edited_by)
+    VALUES (OLD.id, OLD.conversation_id, OLD.content, auth.uid());
+    NEW.edited_at = now();
+  ELSE
+    -- edited_at is owned by this trigger
+    NEW.edited_at = OLD.edited_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_message_edit_before_update
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_message_edit();
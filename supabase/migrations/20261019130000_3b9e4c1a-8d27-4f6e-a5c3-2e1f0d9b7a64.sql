@@ -0,0 +1,179 @@
+-- Delete for everyone leaves a tombstone instead of removing the row
+ALTER TABLE public.messages ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Delete for me: messages a user has hidden from their own view
+CREATE TABLE public.hidden_messages (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  hidden_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+-- Always take conversation_id from the hidden message rather than trusting the client
+CREATE OR REPLACE FUNCTION public.set_hidden_message_conversation_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_hidden_message_conversation_id_before_insert
+  BEFORE INSERT ON public.hidden_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_hidden_message_conversation_id();
+
+-- Enable RLS on hidden_messages
+ALTER TABLE public.hidden_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their hidden messages"
+ON public.hidden_messages
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can hide messages in their conversations"
+ON public.hidden_messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Users can unhide their messages"
+ON public.hidden_messages
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Hidden messages disappear from every read path (pages, threads, search, conversation list) for that user only
+DROP POLICY "Users can view messages in their conversations" ON public.messages;
+
+CREATE POLICY "Users can view messages in their conversations"
+ON public.messages
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = messages.conversation_id
+    AND user_id = auth.uid()
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.hidden_messages
+    WHERE message_id = messages.id
+    AND user_id = auth.uid()
+  )
+);
+
+-- Tombstones are final, and wiping the content on delete is not an edit
+CREATE OR REPLACE FUNCTION public.record_message_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.content IS DISTINCT FROM OLD.content OR NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+      RAISE EXCEPTION 'Deleted messages cannot be edited';
+    END IF;
+    NEW.deleted_at = OLD.deleted_at;
+    NEW.edited_at = OLD.edited_at;
+  ELSIF NEW.deleted_at IS NOT NULL THEN
+    NEW.edited_at = OLD.edited_at;
+  ELSIF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.message_edits (message_id, conversation_id, previous_content, edited_by)
+    VALUES (OLD.id, OLD.conversation_id, OLD.content, auth.uid());
+    NEW.edited_at = now();
+  ELSE
+    -- edited_at is owned by this trigger
+    NEW.edited_at = OLD.edited_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Turn the caller's own message into a tombstone. Content, attachment link, edit history
+-- and reactions are dropped; the row stays so replies, threads and read cursors keep working.
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(message_uuid UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  result_deleted_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.messages
+  SET content = NULL,
+      image_url = NULL,
+      deleted_at = now()
+  WHERE id = message_uuid
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL
+  RETURNING deleted_at INTO result_deleted_at;
+
+  IF result_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Message not found or not yours to delete';
+  END IF;
+
+  DELETE FROM public.message_edits WHERE message_id = message_uuid;
+  DELETE FROM public.message_reactions WHERE message_id = message_uuid;
+
+  RETURN result_deleted_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as before, with a tombstone preview for deleted last messages
+CREATE OR REPLACE FUNCTION public.get_my_conversations()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  is_group BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  participants JSONB,
+  last_message_id UUID,
+  last_message_preview TEXT,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count INTEGER
+) AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.is_group,
+    c.created_at,
+    (
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'user_id', p.user_id,
+        'username', p.username,
+        'display_name', p.display_name,
+        'avatar_url', p.avatar_url,
+        'last_seen', p.last_seen
+      )), '[]'::jsonb)
+      FROM public.conversation_participants cp
+      JOIN public.profiles p ON p.user_id = cp.user_id
+      WHERE cp.conversation_id = c.id
+    ),
+    last_message.id,
+    CASE
+      WHEN last_message.deleted_at IS NOT NULL THEN 'This message was deleted'
+      ELSE public.message_preview(last_message.message_type, last_message.content)
+    END,
+    last_message.sender_id,
+    last_message.created_at,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.messages m
+      WHERE m.conversation_id = c.id
+        AND m.thread_root_id IS NULL
+        AND m.sender_id <> auth.uid()
+        AND (me.last_read_at IS NULL OR m.created_at > me.last_read_at)
+    )
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.message_type, m.content, m.sender_id, m.created_at, m.deleted_at
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.thread_root_id IS NULL
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE me.user_id = auth.uid()
+  ORDER BY coalesce(last_message.created_at, c.created_at) DESC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,6 @@
+-- Client-generated id for each message, so optimistic bubbles can be matched to the stored row
+-- and retries from the offline outbox never create duplicates
+ALTER TABLE public.messages ADD COLUMN client_id UUID;
+
+CREATE UNIQUE INDEX idx_messages_sender_client_id ON public.messages (sender_id, client_id)
+WHERE client_id IS NOT NULL;
@@ -0,0 +1,23 @@
+-- Link previews fetched by the unfurl edge function, cached per URL and shared by all users
+CREATE TABLE public.link_previews (
+  url TEXT NOT NULL PRIMARY KEY,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  -- Set when the page could not be unfurled; failures are cached too, for a shorter time
+  error TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on link_previews. Only the edge function (service role) writes to it.
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view link previews"
+ON public.link_previews
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Senders can remove the preview from their own message
+ALTER TABLE public.messages ADD COLUMN link_preview_hidden BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,25 @@
+-- Users @mentioned in a message, stored alongside it
+ALTER TABLE public.messages ADD COLUMN mentions UUID[] NOT NULL DEFAULT '{}';
+
+-- "Mentions of me" lookups
+CREATE INDEX idx_messages_mentions ON public.messages USING GIN (mentions);
+
+-- Keep only distinct participants of the conversation, never the sender
+CREATE OR REPLACE FUNCTION public.validate_message_mentions()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.mentions := coalesce(ARRAY(
+    SELECT DISTINCT cp.user_id
+    FROM public.conversation_participants cp
+    WHERE cp.conversation_id = NEW.conversation_id
+      AND cp.user_id = ANY(NEW.mentions)
+      AND cp.user_id <> NEW.sender_id
+  ), '{}');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_message_mentions_before_write
+  BEFORE INSERT OR UPDATE OF mentions ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_message_mentions();
@@ -0,0 +1,91 @@
+-- Messages pinned to the top of a conversation
+CREATE TABLE public.pinned_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL UNIQUE REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  pinned_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pinned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_pinned_messages_conversation_id ON public.pinned_messages (conversation_id, pinned_at DESC);
+
+-- Always take conversation_id from the pinned message rather than trusting the client
+CREATE OR REPLACE FUNCTION public.set_pinned_message_conversation_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_pinned_message_conversation_id_before_insert
+  BEFORE INSERT ON public.pinned_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_pinned_message_conversation_id();
+
+-- Anyone in a direct message can manage pins; in groups only the creator (the group admin) can
+CREATE OR REPLACE FUNCTION public.can_manage_pins(conversation_uuid UUID, user_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_conversation_participant(conversation_uuid, user_uuid)
+    AND EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE id = conversation_uuid
+      AND (NOT is_group OR created_by = user_uuid)
+    );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- At most 10 pins per conversation; counted without RLS so the check sees every pin
+CREATE OR REPLACE FUNCTION public.has_pin_capacity(conversation_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT count(*) < 10 FROM public.pinned_messages WHERE conversation_id = conversation_uuid;
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Enable RLS on pinned_messages
+ALTER TABLE public.pinned_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pins in their conversations"
+ON public.pinned_messages
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- Only top-level messages that still exist can be pinned
+CREATE POLICY "Users can pin messages in conversations they manage"
+ON public.pinned_messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = pinned_by
+  AND public.can_manage_pins(conversation_id, auth.uid())
+  AND public.has_pin_capacity(conversation_id)
+  AND EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = pinned_messages.message_id
+    AND thread_root_id IS NULL
+    AND deleted_at IS NULL
+  )
+);
+
+CREATE POLICY "Users can unpin messages in conversations they manage"
+ON public.pinned_messages
+FOR DELETE
+USING (public.can_manage_pins(conversation_id, auth.uid()));
+
+-- A message deleted for everyone drops out of the pins
+CREATE OR REPLACE FUNCTION public.unpin_deleted_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.pinned_messages WHERE message_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER unpin_deleted_message_after_update
+  AFTER UPDATE OF deleted_at ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.unpin_deleted_message();
+
+-- Enable realtime for pin/unpin events
+ALTER TABLE public.pinned_messages REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.pinned_messages;
@@ -0,0 +1,98 @@
+-- Messages written now and delivered at a chosen time
+CREATE TABLE public.scheduled_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (char_length(btrim(content)) > 0),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scheduled_messages_scheduled_for ON public.scheduled_messages (scheduled_for);
+CREATE INDEX idx_scheduled_messages_sender_conversation ON public.scheduled_messages (sender_id, conversation_id);
+
+CREATE TRIGGER update_scheduled_messages_updated_at
+  BEFORE UPDATE ON public.scheduled_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS on scheduled_messages. Pending messages are private to their sender.
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their scheduled messages"
+ON public.scheduled_messages
+FOR SELECT
+USING (auth.uid() = sender_id);
+
+CREATE POLICY "Users can schedule messages in their conversations"
+ON public.scheduled_messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+  AND scheduled_for > now()
+);
+
+CREATE POLICY "Users can reschedule their scheduled messages"
+ON public.scheduled_messages
+FOR UPDATE
+USING (auth.uid() = sender_id)
+WITH CHECK (
+  auth.uid() = sender_id
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+  AND scheduled_for > now()
+);
+
+CREATE POLICY "Users can cancel their scheduled messages"
+ON public.scheduled_messages
+FOR DELETE
+USING (auth.uid() = sender_id);
+
+-- Turns due scheduled messages into real messages. The scheduled id doubles as the
+-- client_id, so a retried run can never deliver the same message twice.
+-- Senders who have left the conversation in the meantime are skipped.
+CREATE OR REPLACE FUNCTION public.deliver_scheduled_messages()
+RETURNS INTEGER AS $$
+DECLARE
+  delivered_count INTEGER;
+BEGIN
+  WITH due AS (
+    DELETE FROM public.scheduled_messages
+    WHERE id IN (
+      SELECT id FROM public.scheduled_messages
+      WHERE scheduled_for <= now()
+      ORDER BY scheduled_for
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  ),
+  inserted AS (
+    INSERT INTO public.messages (conversation_id, sender_id, content, message_type, mentions, client_id)
+    SELECT due.conversation_id, due.sender_id, due.content, 'text', due.mentions, due.id
+    FROM due
+    WHERE public.is_conversation_participant(due.conversation_id, due.sender_id)
+    ORDER BY due.scheduled_for
+    ON CONFLICT (sender_id, client_id) WHERE client_id IS NOT NULL DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO delivered_count FROM inserted;
+  RETURN delivered_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.deliver_scheduled_messages() FROM PUBLIC, anon, authenticated;
+
+-- Deliver due messages every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'deliver-scheduled-messages',
+  '* * * * *',
+  'SELECT public.deliver_scheduled_messages()'
+);
+
+-- Enable realtime so the pending list drops messages as they are delivered
+ALTER TABLE public.scheduled_messages REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scheduled_messages;
@@ -0,0 +1,135 @@
+-- Disappearing messages: a per-conversation timer (NULL = off) stamped onto new messages as expires_at
+ALTER TABLE public.conversations
+  ADD COLUMN message_ttl_seconds INTEGER CHECK (message_ttl_seconds IN (86400, 604800, 7776000));
+
+ALTER TABLE public.messages ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_messages_expires_at ON public.messages (expires_at) WHERE expires_at IS NOT NULL;
+
+-- 'system' messages are notices written by the server, like timer changes.
+-- call_info was already sent by the client but missing from the original check.
+ALTER TABLE public.messages DROP CONSTRAINT messages_message_type_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'call_info', 'system'));
+
+DROP POLICY "Users can send messages to their conversations" ON public.messages;
+
+CREATE POLICY "Users can send messages to their conversations"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND message_type <> 'system'
+  AND EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = messages.conversation_id
+    AND user_id = auth.uid()
+  )
+);
+
+-- Expired messages are gone for readers right away, even before the cleanup job removes them
+DROP POLICY "Users can view messages in their conversations" ON public.messages;
+
+CREATE POLICY "Users can view messages in their conversations"
+ON public.messages
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = messages.conversation_id
+    AND user_id = auth.uid()
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.hidden_messages
+    WHERE message_id = messages.id
+    AND user_id = auth.uid()
+  )
+  AND (expires_at IS NULL OR expires_at > now())
+);
+
+-- The timer is read from the conversation, never from the client. System notices stay.
+CREATE OR REPLACE FUNCTION public.set_message_expiry()
+RETURNS TRIGGER AS $$
+DECLARE
+  ttl_seconds INTEGER;
+BEGIN
+  IF NEW.message_type = 'system' THEN
+    NEW.expires_at = NULL;
+    RETURN NEW;
+  END IF;
+  SELECT message_ttl_seconds INTO ttl_seconds
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+  NEW.expires_at = CASE WHEN ttl_seconds IS NULL THEN NULL ELSE now() + make_interval(secs => ttl_seconds) END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_message_expiry_before_insert
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_message_expiry();
+
+-- Any participant can change the timer; everyone sees who did through a system message
+CREATE OR REPLACE FUNCTION public.set_message_ttl(conversation_uuid UUID, ttl_seconds INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  current_ttl INTEGER;
+  actor_name TEXT;
+BEGIN
+  IF NOT public.is_conversation_participant(conversation_uuid, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT message_ttl_seconds INTO current_ttl
+  FROM public.conversations
+  WHERE id = conversation_uuid
+  FOR UPDATE;
+
+  IF current_ttl IS NOT DISTINCT FROM ttl_seconds THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.conversations
+  SET message_ttl_seconds = ttl_seconds
+  WHERE id = conversation_uuid;
+
+  SELECT coalesce(display_name, username, 'Someone') INTO actor_name
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  INSERT INTO public.messages (conversation_id, sender_id, message_type, content)
+  VALUES (
+    conversation_uuid,
+    auth.uid(),
+    'system',
+    coalesce(actor_name, 'Someone') || CASE ttl_seconds
+      WHEN 86400 THEN ' turned on disappearing messages: 24 hours'
+      WHEN 604800 THEN ' turned on disappearing messages: 7 days'
+      WHEN 7776000 THEN ' turned on disappearing messages: 90 days'
+      ELSE ' turned off disappearing messages'
+    END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Expired rows are removed by the purge-expired-messages edge function, which also deletes
+-- their chat-images objects through the Storage API. It runs every minute through pg_net,
+-- reading the project URL and service role key from Vault (secrets 'project_url' and
+-- 'service_role_key', created once per project outside of migrations).
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-expired-messages',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-expired-messages',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,97 @@
+-- Forwarded copies of messages, marked so readers know the sender did not write them
+ALTER TABLE public.messages ADD COLUMN forwarded BOOLEAN NOT NULL DEFAULT false;
+
+-- Storage path of a chat-images attachment, taken from its URL
+CREATE OR REPLACE FUNCTION public.chat_image_path(image_url TEXT)
+RETURNS TEXT AS $$
+  SELECT split_part(substring(image_url FROM '/chat-images/(.*)$'), '?', 1);
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Clients may only attach images from their own upload folder. Forwarding someone
+-- else's image goes through forward_message(), which checks the caller can see it.
+DROP POLICY "Users can send messages to their conversations" ON public.messages;
+
+CREATE POLICY "Users can send messages to their conversations"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND message_type <> 'system'
+  AND forwarded = false
+  AND (image_url IS NULL OR (storage.foldername(public.chat_image_path(image_url)))[1] = auth.uid()::text)
+  AND EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = messages.conversation_id
+    AND user_id = auth.uid()
+  )
+);
+
+-- An image is visible to the participants of every conversation with a message that
+-- references it, so forwarded copies work for the destination without re-uploading
+DROP POLICY "Users can view chat images in their conversations" ON storage.objects;
+
+CREATE POLICY "Users can view chat images in their conversations"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-images' AND
+  EXISTS (
+    SELECT 1 FROM public.messages m
+    JOIN public.conversation_participants cp ON m.conversation_id = cp.conversation_id
+    WHERE public.chat_image_path(m.image_url) = storage.objects.name
+    AND cp.user_id = auth.uid()
+  )
+);
+
+-- Copy a message the caller can see into each of the given conversations they belong to.
+-- Text is copied, images are re-referenced; mentions and quotes stay behind.
+CREATE OR REPLACE FUNCTION public.forward_message(message_uuid UUID, conversation_uuids UUID[])
+RETURNS SETOF UUID AS $$
+DECLARE
+  source public.messages%ROWTYPE;
+  target UUID;
+BEGIN
+  IF coalesce(array_length(conversation_uuids, 1), 0) = 0 OR array_length(conversation_uuids, 1) > 20 THEN
+    RAISE EXCEPTION 'Pick between 1 and 20 conversations';
+  END IF;
+
+  SELECT * INTO source
+  FROM public.messages m
+  WHERE m.id = message_uuid
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND m.message_type IN ('text', 'image')
+    AND public.is_conversation_participant(m.conversation_id, auth.uid())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id
+      AND h.user_id = auth.uid()
+    );
+
+  IF source.id IS NULL THEN
+    RAISE EXCEPTION 'Message not found or cannot be forwarded';
+  END IF;
+
+  FOREACH target IN ARRAY (SELECT array_agg(DISTINCT t) FROM unnest(conversation_uuids) AS t) LOOP
+    IF NOT public.is_conversation_participant(target, auth.uid()) THEN
+      RAISE EXCEPTION 'Not a participant of conversation %', target;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.messages (conversation_id, sender_id, message_type, content, image_url, forwarded)
+    VALUES (target, auth.uid(), source.message_type, source.content, source.image_url, true)
+    RETURNING id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Whether a live message still references one of the caller's images, so deleting
+-- the original for everyone does not break forwarded copies
+CREATE OR REPLACE FUNCTION public.chat_image_in_use(image_path TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT (storage.foldername(image_path))[1] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE public.chat_image_path(image_url) = image_path
+    );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
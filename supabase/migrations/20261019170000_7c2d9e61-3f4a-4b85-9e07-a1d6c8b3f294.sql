@@ -0,0 +1,79 @@
+-- Messages a user has starred to find again later, across all of their conversations
+CREATE TABLE public.starred_messages (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  -- Denormalized from the message so the starred list can be filtered by conversation
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  starred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+CREATE INDEX idx_starred_messages_user_starred_at ON public.starred_messages (user_id, starred_at DESC);
+
+-- Always take conversation_id from the starred message rather than trusting the client
+CREATE OR REPLACE FUNCTION public.set_starred_message_conversation_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_starred_message_conversation_id_before_insert
+  BEFORE INSERT ON public.starred_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_starred_message_conversation_id();
+
+-- Enable RLS on starred_messages. Stars are private to the user who set them.
+ALTER TABLE public.starred_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their starred messages"
+ON public.starred_messages
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can star messages in their conversations"
+ON public.starred_messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Users can unstar their messages"
+ON public.starred_messages
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Hard deletes (including expired messages) cascade; tombstones and hidden messages
+-- drop their stars here
+CREATE OR REPLACE FUNCTION public.unstar_deleted_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.starred_messages WHERE message_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER unstar_deleted_message_after_update
+  AFTER UPDATE OF deleted_at ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.unstar_deleted_message();
+
+CREATE OR REPLACE FUNCTION public.unstar_hidden_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.starred_messages
+  WHERE user_id = NEW.user_id
+  AND message_id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER unstar_hidden_message_after_insert
+  AFTER INSERT ON public.hidden_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.unstar_hidden_message();
@@ -0,0 +1,272 @@
+-- Polls: a 'poll' message whose content is the question, plus its options and votes
+ALTER TABLE public.messages DROP CONSTRAINT messages_message_type_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'call_info', 'system', 'poll'));
+
+-- Poll messages are only created through public.create_poll() so they always have options
+DROP POLICY "Users can send messages to their conversations" ON public.messages;
+
+CREATE POLICY "Users can send messages to their conversations"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND message_type NOT IN ('system', 'poll')
+  AND forwarded = false
+  AND (image_url IS NULL OR (storage.foldername(public.chat_image_path(image_url)))[1] = auth.uid()::text)
+  AND EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = messages.conversation_id
+    AND user_id = auth.uid()
+  )
+);
+
+CREATE TABLE public.polls (
+  message_id UUID NOT NULL PRIMARY KEY REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  question TEXT NOT NULL CHECK (char_length(btrim(question)) BETWEEN 1 AND 300),
+  allows_multiple BOOLEAN NOT NULL DEFAULT false,
+  is_anonymous BOOLEAN NOT NULL DEFAULT false,
+  -- Automatic close time chosen by the creator
+  closes_at TIMESTAMP WITH TIME ZONE,
+  -- Set when the creator closes the poll early
+  closed_at TIMESTAMP WITH TIME ZONE,
+  -- Distinct voters, the base for percentages in multiple-choice polls
+  voter_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.poll_options (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.polls(message_id) ON DELETE CASCADE,
+  -- Denormalized so realtime subscriptions and RLS can filter by conversation
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL,
+  label TEXT NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 100),
+  vote_count INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (message_id, position)
+);
+
+-- One row per user and chosen option; single-choice polls allow one row per user
+CREATE TABLE public.poll_votes (
+  option_id UUID NOT NULL REFERENCES public.poll_options(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.polls(message_id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  voted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (option_id, user_id)
+);
+
+CREATE INDEX idx_poll_votes_message_user ON public.poll_votes (message_id, user_id);
+
+CREATE OR REPLACE FUNCTION public.enforce_single_choice_vote()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.polls p
+    JOIN public.poll_votes v ON v.message_id = p.message_id
+    WHERE p.message_id = NEW.message_id
+    AND NOT p.allows_multiple
+    AND v.user_id = NEW.user_id
+    AND v.option_id <> NEW.option_id
+  ) THEN
+    RAISE EXCEPTION 'Only one option can be chosen in this poll';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_single_choice_vote_before_insert
+  BEFORE INSERT ON public.poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_single_choice_vote();
+
+-- Keep per-option totals current so anonymous polls can show results without exposing votes
+CREATE OR REPLACE FUNCTION public.update_poll_option_vote_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.poll_options SET vote_count = vote_count + 1 WHERE id = NEW.option_id;
+  ELSE
+    UPDATE public.poll_options SET vote_count = vote_count - 1 WHERE id = OLD.option_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_poll_option_vote_count_after_change
+  AFTER INSERT OR DELETE ON public.poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_poll_option_vote_count();
+
+-- A poll deleted for everyone loses its options and votes with it
+CREATE OR REPLACE FUNCTION public.delete_poll_of_deleted_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.polls WHERE message_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER delete_poll_of_deleted_message_after_update
+  AFTER UPDATE OF deleted_at ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL AND NEW.message_type = 'poll')
+  EXECUTE FUNCTION public.delete_poll_of_deleted_message();
+
+-- Enable RLS. Polls are only written through the functions below.
+ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view polls in their conversations"
+ON public.polls
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Users can view poll options in their conversations"
+ON public.poll_options
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- Who voted for what is only visible in polls that are not anonymous
+CREATE POLICY "Users can view their votes and votes in public polls"
+ON public.poll_votes
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR (
+    public.is_conversation_participant(conversation_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.polls
+      WHERE message_id = poll_votes.message_id
+      AND NOT is_anonymous
+    )
+  )
+);
+
+-- Post a poll message with its options in one go
+CREATE OR REPLACE FUNCTION public.create_poll(
+  conversation_uuid UUID,
+  question TEXT,
+  options TEXT[],
+  allows_multiple BOOLEAN DEFAULT false,
+  is_anonymous BOOLEAN DEFAULT false,
+  closes_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  clean_options TEXT[];
+  poll_message_id UUID;
+BEGIN
+  IF NOT public.is_conversation_participant(conversation_uuid, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT array_agg(btrim(o.label) ORDER BY o.ordinality) INTO clean_options
+  FROM unnest(options) WITH ORDINALITY AS o(label, ordinality)
+  WHERE btrim(o.label) <> '';
+
+  IF coalesce(array_length(clean_options, 1), 0) NOT BETWEEN 2 AND 10 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 10 options';
+  END IF;
+  IF closes_at IS NOT NULL AND closes_at <= now() THEN
+    RAISE EXCEPTION 'The closing time must be in the future';
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, sender_id, message_type, content)
+  VALUES (conversation_uuid, auth.uid(), 'poll', btrim(question))
+  RETURNING id INTO poll_message_id;
+
+  INSERT INTO public.polls (message_id, conversation_id, question, allows_multiple, is_anonymous, closes_at)
+  VALUES (poll_message_id, conversation_uuid, btrim(question), create_poll.allows_multiple, create_poll.is_anonymous, create_poll.closes_at);
+
+  INSERT INTO public.poll_options (message_id, conversation_id, position, label)
+  SELECT poll_message_id, conversation_uuid, o.ordinality - 1, o.label
+  FROM unnest(clean_options) WITH ORDINALITY AS o(label, ordinality);
+
+  RETURN poll_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replace the caller's votes in a poll with the given options (empty retracts the vote)
+CREATE OR REPLACE FUNCTION public.vote_in_poll(poll_message_uuid UUID, option_uuids UUID[])
+RETURNS VOID AS $$
+DECLARE
+  poll public.polls%ROWTYPE;
+BEGIN
+  -- Locking the poll serializes votes, so single-choice checks cannot race
+  SELECT * INTO poll FROM public.polls WHERE message_id = poll_message_uuid FOR UPDATE;
+
+  IF poll.message_id IS NULL OR NOT public.is_conversation_participant(poll.conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+  IF poll.closed_at IS NOT NULL OR (poll.closes_at IS NOT NULL AND poll.closes_at <= now()) THEN
+    RAISE EXCEPTION 'This poll is closed';
+  END IF;
+  IF NOT poll.allows_multiple AND coalesce(array_length(option_uuids, 1), 0) > 1 THEN
+    RAISE EXCEPTION 'Only one option can be chosen in this poll';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(option_uuids) AS chosen
+    WHERE NOT EXISTS (SELECT 1 FROM public.poll_options WHERE id = chosen AND message_id = poll_message_uuid)
+  ) THEN
+    RAISE EXCEPTION 'Unknown poll option';
+  END IF;
+
+  DELETE FROM public.poll_votes
+  WHERE message_id = poll_message_uuid
+    AND user_id = auth.uid()
+    AND option_id <> ALL (option_uuids);
+
+  INSERT INTO public.poll_votes (option_id, user_id, message_id, conversation_id)
+  SELECT DISTINCT chosen, auth.uid(), poll_message_uuid, poll.conversation_id
+  FROM unnest(option_uuids) AS chosen
+  ON CONFLICT (option_id, user_id) DO NOTHING;
+
+  UPDATE public.polls
+  SET voter_count = (SELECT count(DISTINCT user_id) FROM public.poll_votes WHERE message_id = poll_message_uuid)
+  WHERE message_id = poll_message_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the creator can close a poll before its closing time
+CREATE OR REPLACE FUNCTION public.close_poll(poll_message_uuid UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  result_closed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.polls p
+  SET closed_at = now()
+  FROM public.messages m
+  WHERE p.message_id = poll_message_uuid
+    AND m.id = p.message_id
+    AND m.sender_id = auth.uid()
+    AND p.closed_at IS NULL
+  RETURNING p.closed_at INTO result_closed_at;
+
+  IF result_closed_at IS NULL THEN
+    RAISE EXCEPTION 'Poll not found or not yours to close';
+  END IF;
+  RETURN result_closed_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sidebar preview for poll messages
+CREATE OR REPLACE FUNCTION public.message_preview(message_type TEXT, content TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE message_type
+    WHEN 'image' THEN '📷 Photo'
+    WHEN 'call_info' THEN '📞 Call'
+    WHEN 'poll' THEN '📊 ' || left(coalesce(content, ''), 118)
+    ELSE left(coalesce(content, ''), 120)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Enable realtime for live results and poll closing
+ALTER TABLE public.polls REPLICA IDENTITY FULL;
+ALTER TABLE public.poll_options REPLICA IDENTITY FULL;
+ALTER TABLE public.poll_votes REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.polls;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_options;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_votes;
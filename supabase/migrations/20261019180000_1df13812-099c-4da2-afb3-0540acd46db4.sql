@@ -0,0 +1,170 @@
+-- Voice notes: 'audio' messages pointing at a recording in the private voice-notes bucket,
+-- with its duration and waveform peaks so the player can draw without downloading
+ALTER TABLE public.messages DROP CONSTRAINT messages_message_type_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'call_info', 'system', 'poll', 'audio'));
+
+-- Storage path inside voice-notes, laid out as <sender id>/<client id>.<ext>
+ALTER TABLE public.messages ADD COLUMN audio_path TEXT;
+ALTER TABLE public.messages ADD COLUMN audio_duration_ms INTEGER
+  CHECK (audio_duration_ms IS NULL OR audio_duration_ms BETWEEN 1 AND 900000);
+-- Loudness per slice of the recording, 0-100
+ALTER TABLE public.messages ADD COLUMN audio_peaks SMALLINT[]
+  CHECK (audio_peaks IS NULL OR cardinality(audio_peaks) <= 100);
+
+-- Recordings are only ever referenced from the sender's own folder
+DROP POLICY "Users can send messages to their conversations" ON public.messages;
+
+CREATE POLICY "Users can send messages to their conversations"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND message_type NOT IN ('system', 'poll')
+  AND forwarded = false
+  AND (image_url IS NULL OR (storage.foldername(public.chat_image_path(image_url)))[1] = auth.uid()::text)
+  AND (message_type <> 'audio' OR audio_path IS NOT NULL)
+  AND (audio_path IS NULL OR (storage.foldername(audio_path))[1] = auth.uid()::text)
+  AND EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = messages.conversation_id
+    AND user_id = auth.uid()
+  )
+);
+
+-- Same as before, also dropping the recording reference from the tombstone
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(message_uuid UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  result_deleted_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.messages
+  SET content = NULL,
+      image_url = NULL,
+      audio_path = NULL,
+      audio_peaks = NULL,
+      deleted_at = now()
+  WHERE id = message_uuid
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL
+  RETURNING deleted_at INTO result_deleted_at;
+
+  IF result_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Message not found or not yours to delete';
+  END IF;
+
+  DELETE FROM public.message_edits WHERE message_id = message_uuid;
+  DELETE FROM public.message_reactions WHERE message_id = message_uuid;
+
+  RETURN result_deleted_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sidebar preview for voice notes
+CREATE OR REPLACE FUNCTION public.message_preview(message_type TEXT, content TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE message_type
+    WHEN 'image' THEN '📷 Photo'
+    WHEN 'call_info' THEN '📞 Call'
+    WHEN 'audio' THEN '🎤 Voice message'
+    WHEN 'poll' THEN '📊 ' || left(coalesce(content, ''), 118)
+    ELSE left(coalesce(content, ''), 120)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Private bucket for recordings; 10MB covers the 15 minute cap at typical Opus bitrates
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('voice-notes', 'voice-notes', false, 10485760, ARRAY['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav']);
+
+CREATE POLICY "Users can upload voice notes to their folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'voice-notes' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Retried uploads overwrite the earlier attempt
+CREATE POLICY "Users can replace their voice notes"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'voice-notes' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their voice notes"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'voice-notes' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Readable by the sender, and by participants of a conversation with a message that
+-- references the recording (the messages policies hide expired and foreign messages)
+CREATE POLICY "Users can listen to voice notes in their conversations"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'voice-notes' AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.audio_path = storage.objects.name
+      AND public.is_conversation_participant(m.conversation_id, auth.uid())
+    )
+  )
+);
+
+-- Who has listened to a voice note, so the sender can see it was played
+CREATE TABLE public.voice_note_plays (
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Denormalized from the message so realtime subscriptions can filter by conversation
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  played_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+-- Always take conversation_id from the played message rather than trusting the client
+CREATE OR REPLACE FUNCTION public.set_voice_note_play_conversation_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_voice_note_play_conversation_id_before_insert
+  BEFORE INSERT ON public.voice_note_plays
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_voice_note_play_conversation_id();
+
+ALTER TABLE public.voice_note_plays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view voice note plays in their conversations"
+ON public.voice_note_plays
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- Only recipients mark a voice note as played
+CREATE POLICY "Users can mark voice notes as played"
+ON public.voice_note_plays
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = voice_note_plays.message_id
+    AND message_type = 'audio'
+    AND sender_id <> auth.uid()
+  )
+);
+
+-- Enable realtime so senders see their voice notes being played
+ALTER TABLE public.voice_note_plays REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.voice_note_plays;
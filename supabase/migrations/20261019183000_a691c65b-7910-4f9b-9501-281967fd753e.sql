@@ -0,0 +1,231 @@
+-- File attachments: 'file' messages with their files in the private chat-files bucket.
+-- The message content is an optional caption; the files are described in message_attachments.
+ALTER TABLE public.messages DROP CONSTRAINT messages_message_type_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'call_info', 'system', 'poll', 'audio', 'file'));
+
+-- Largest accepted upload per MIME type, in bytes; NULL-safe so unknown types get the default.
+-- Mirrored by getAttachmentSizeLimit() in src/lib/attachments.ts.
+CREATE OR REPLACE FUNCTION public.attachment_size_limit(mime_type TEXT)
+RETURNS BIGINT AS $$
+  SELECT CASE
+    WHEN mime_type LIKE 'image/%' THEN 10485760
+    WHEN mime_type LIKE 'audio/%' OR mime_type LIKE 'video/%' THEN 52428800
+    WHEN mime_type IN ('application/zip', 'application/x-zip-compressed', 'application/x-7z-compressed',
+                       'application/x-rar-compressed', 'application/vnd.rar', 'application/gzip', 'application/x-tar') THEN 52428800
+    WHEN mime_type = 'application/pdf'
+      OR mime_type IN ('application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint', 'application/rtf')
+      OR mime_type LIKE 'application/vnd.openxmlformats-officedocument.%'
+      OR mime_type LIKE 'application/vnd.oasis.opendocument.%' THEN 26214400
+    WHEN mime_type LIKE 'text/%' OR mime_type = 'application/json' THEN 5242880
+    ELSE 10485760
+  END::BIGINT;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE TABLE public.message_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  uploader_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Order within the message
+  position SMALLINT NOT NULL DEFAULT 0,
+  file_name TEXT NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 255),
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  -- Object name inside chat-files, laid out as <uploader id>/<client id>/<file name>
+  storage_path TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, position),
+  CHECK (size_bytes <= public.attachment_size_limit(mime_type))
+);
+
+-- Enable RLS on message_attachments. Rows are only written by send_attachment_message().
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view attachments in their conversations"
+ON public.message_attachments
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- File messages always come with their attachments, so clients cannot insert them directly
+DROP POLICY "Users can send messages to their conversations" ON public.messages;
+
+CREATE POLICY "Users can send messages to their conversations"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND message_type NOT IN ('system', 'poll', 'file')
+  AND forwarded = false
+  AND (image_url IS NULL OR (storage.foldername(public.chat_image_path(image_url)))[1] = auth.uid()::text)
+  AND (message_type <> 'audio' OR audio_path IS NOT NULL)
+  AND (audio_path IS NULL OR (storage.foldername(audio_path))[1] = auth.uid()::text)
+  AND EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = messages.conversation_id
+    AND user_id = auth.uid()
+  )
+);
+
+-- Post a file message for objects the caller has already uploaded to chat-files.
+-- Size and type are read from the stored objects rather than trusted from the client, and
+-- a retry with the same client id returns the message stored by the earlier attempt.
+CREATE OR REPLACE FUNCTION public.send_attachment_message(
+  conversation_uuid UUID,
+  client_uuid UUID,
+  storage_paths TEXT[],
+  file_names TEXT[],
+  caption TEXT DEFAULT NULL,
+  quoted_message_uuid UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_message_id UUID;
+  file_count INTEGER := coalesce(array_length(storage_paths, 1), 0);
+  object_size BIGINT;
+  object_mime_type TEXT;
+BEGIN
+  IF NOT public.is_conversation_participant(conversation_uuid, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT id INTO new_message_id
+  FROM public.messages
+  WHERE sender_id = auth.uid()
+    AND client_id = client_uuid;
+  IF new_message_id IS NOT NULL THEN
+    RETURN new_message_id;
+  END IF;
+
+  IF file_count NOT BETWEEN 1 AND 10 OR file_count <> coalesce(array_length(file_names, 1), 0) THEN
+    RAISE EXCEPTION 'Attach between 1 and 10 files';
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, sender_id, message_type, content, client_id, quoted_message_id)
+  VALUES (conversation_uuid, auth.uid(), 'file', nullif(btrim(caption), ''), client_uuid, quoted_message_uuid)
+  RETURNING id INTO new_message_id;
+
+  FOR i IN 1..file_count LOOP
+    IF (storage.foldername(storage_paths[i]))[1] IS DISTINCT FROM auth.uid()::text THEN
+      RAISE EXCEPTION 'Attachments must be uploaded to your own folder';
+    END IF;
+
+    SELECT (o.metadata->>'size')::BIGINT, coalesce(nullif(o.metadata->>'mimetype', ''), 'application/octet-stream')
+    INTO object_size, object_mime_type
+    FROM storage.objects o
+    WHERE o.bucket_id = 'chat-files'
+      AND o.name = storage_paths[i];
+
+    IF object_size IS NULL THEN
+      RAISE EXCEPTION 'Attachment % has not been uploaded', file_names[i];
+    END IF;
+    IF object_size > public.attachment_size_limit(object_mime_type) THEN
+      RAISE EXCEPTION '% is too large for a % file', file_names[i], object_mime_type;
+    END IF;
+
+    INSERT INTO public.message_attachments (message_id, conversation_id, uploader_id, position, file_name, mime_type, size_bytes, storage_path)
+    VALUES (new_message_id, conversation_uuid, auth.uid(), i - 1, left(btrim(file_names[i]), 255), object_mime_type, object_size, storage_paths[i]);
+  END LOOP;
+
+  RETURN new_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as before, also dropping the attachments from the tombstone
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(message_uuid UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  result_deleted_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.messages
+  SET content = NULL,
+      image_url = NULL,
+      audio_path = NULL,
+      audio_peaks = NULL,
+      deleted_at = now()
+  WHERE id = message_uuid
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL
+  RETURNING deleted_at INTO result_deleted_at;
+
+  IF result_deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Message not found or not yours to delete';
+  END IF;
+
+  DELETE FROM public.message_edits WHERE message_id = message_uuid;
+  DELETE FROM public.message_reactions WHERE message_id = message_uuid;
+  DELETE FROM public.message_attachments WHERE message_id = message_uuid;
+
+  RETURN result_deleted_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sidebar preview for file messages
+CREATE OR REPLACE FUNCTION public.message_preview(message_type TEXT, content TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE message_type
+    WHEN 'image' THEN '📷 Photo'
+    WHEN 'call_info' THEN '📞 Call'
+    WHEN 'audio' THEN '🎤 Voice message'
+    WHEN 'file' THEN '📎 ' || left(coalesce(content, 'File'), 118)
+    WHEN 'poll' THEN '📊 ' || left(coalesce(content, ''), 118)
+    ELSE left(coalesce(content, ''), 120)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Private bucket for attachments; per-type limits are checked by send_attachment_message()
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-files', 'chat-files', false, 52428800);
+
+CREATE POLICY "Users can upload chat files to their folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-files' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Retried uploads overwrite the earlier attempt
+CREATE POLICY "Users can replace their chat files"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'chat-files' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their chat files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'chat-files' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Readable by the uploader, and by participants of the conversation the file was sent to.
+-- Matches the exact object name instead of a LIKE on a URL.
+CREATE POLICY "Users can download chat files in their conversations"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-files' AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR EXISTS (
+      SELECT 1 FROM public.message_attachments a
+      WHERE a.storage_path = storage.objects.name
+      AND public.is_conversation_participant(a.conversation_id, auth.uid())
+    )
+  )
+);
+
+-- chat-images uploads were allowed anywhere in the bucket; keep them in the uploader's folder
+-- like every other bucket, which the messages insert policy already expects
+DROP POLICY "Users can upload chat images" ON storage.objects;
+
+CREATE POLICY "Users can upload chat images"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-images' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
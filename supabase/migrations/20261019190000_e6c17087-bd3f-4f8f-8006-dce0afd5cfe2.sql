@@ -0,0 +1,128 @@
+-- Albums: several photos sent as one 'album' message. The photos are stored like file
+-- attachments in chat-files, with their dimensions and a tiny blurred placeholder so the
+-- grid can be laid out before the images load.
+ALTER TABLE public.messages DROP CONSTRAINT messages_message_type_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'call_info', 'system', 'poll', 'audio', 'file', 'album'));
+
+ALTER TABLE public.message_attachments
+  ADD COLUMN width INTEGER CHECK (width > 0),
+  ADD COLUMN height INTEGER CHECK (height > 0),
+  -- Data URL of a ~24px JPEG, small enough to ship with every message fetch
+  ADD COLUMN thumbnail TEXT CHECK (thumbnail LIKE 'data:image/%' AND char_length(thumbnail) <= 4096);
+
+-- Album messages always come with their attachments, so clients cannot insert them directly
+DROP POLICY "Users can send messages to their conversations" ON public.messages;
+
+CREATE POLICY "Users can send messages to their conversations"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND message_type NOT IN ('system', 'poll', 'file', 'album')
+  AND forwarded = false
+  AND (image_url IS NULL OR (storage.foldername(public.chat_image_path(image_url)))[1] = auth.uid()::text)
+  AND (message_type <> 'audio' OR audio_path IS NOT NULL)
+  AND (audio_path IS NULL OR (storage.foldername(audio_path))[1] = auth.uid()::text)
+  AND EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = messages.conversation_id
+    AND user_id = auth.uid()
+  )
+);
+
+-- Same as before, now also posting albums: 2 to 10 images with optional dimensions and
+-- placeholders, given in the same order as the storage paths
+DROP FUNCTION public.send_attachment_message(UUID, UUID, TEXT[], TEXT[], TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.send_attachment_message(
+  conversation_uuid UUID,
+  client_uuid UUID,
+  storage_paths TEXT[],
+  file_names TEXT[],
+  caption TEXT DEFAULT NULL,
+  quoted_message_uuid UUID DEFAULT NULL,
+  as_album BOOLEAN DEFAULT false,
+  image_widths INTEGER[] DEFAULT NULL,
+  image_heights INTEGER[] DEFAULT NULL,
+  thumbnails TEXT[] DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_message_id UUID;
+  file_count INTEGER := coalesce(array_length(storage_paths, 1), 0);
+  object_size BIGINT;
+  object_mime_type TEXT;
+BEGIN
+  IF NOT public.is_conversation_participant(conversation_uuid, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT id INTO new_message_id
+  FROM public.messages
+  WHERE sender_id = auth.uid()
+    AND client_id = client_uuid;
+  IF new_message_id IS NOT NULL THEN
+    RETURN new_message_id;
+  END IF;
+
+  IF file_count NOT BETWEEN 1 AND 10 OR file_count <> coalesce(array_length(file_names, 1), 0) THEN
+    RAISE EXCEPTION 'Attach between 1 and 10 files';
+  END IF;
+  IF as_album AND file_count < 2 THEN
+    RAISE EXCEPTION 'An album needs at least 2 photos';
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, sender_id, message_type, content, client_id, quoted_message_id)
+  VALUES (conversation_uuid, auth.uid(), CASE WHEN as_album THEN 'album' ELSE 'file' END,
+          nullif(btrim(caption), ''), client_uuid, quoted_message_uuid)
+  RETURNING id INTO new_message_id;
+
+  FOR i IN 1..file_count LOOP
+    IF (storage.foldername(storage_paths[i]))[1] IS DISTINCT FROM auth.uid()::text THEN
+      RAISE EXCEPTION 'Attachments must be uploaded to your own folder';
+    END IF;
+
+    SELECT (o.metadata->>'size')::BIGINT, coalesce(nullif(o.metadata->>'mimetype', ''), 'application/octet-stream')
+    INTO object_size, object_mime_type
+    FROM storage.objects o
+    WHERE o.bucket_id = 'chat-files'
+      AND o.name = storage_paths[i];
+
+    IF object_size IS NULL THEN
+      RAISE EXCEPTION 'Attachment % has not been uploaded', file_names[i];
+    END IF;
+    IF object_size > public.attachment_size_limit(object_mime_type) THEN
+      RAISE EXCEPTION '% is too large for a % file', file_names[i], object_mime_type;
+    END IF;
+    IF as_album AND object_mime_type NOT LIKE 'image/%' THEN
+      RAISE EXCEPTION '% is not a photo', file_names[i];
+    END IF;
+
+    INSERT INTO public.message_attachments (
+      message_id, conversation_id, uploader_id, position, file_name, mime_type, size_bytes, storage_path,
+      width, height, thumbnail
+    )
+    VALUES (
+      new_message_id, conversation_uuid, auth.uid(), i - 1, left(btrim(file_names[i]), 255), object_mime_type, object_size, storage_paths[i],
+      image_widths[i], image_heights[i], thumbnails[i]
+    );
+  END LOOP;
+
+  RETURN new_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sidebar preview for albums
+CREATE OR REPLACE FUNCTION public.message_preview(message_type TEXT, content TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE message_type
+    WHEN 'image' THEN '📷 Photo'
+    WHEN 'album' THEN '📷 ' || left(coalesce(content, 'Album'), 118)
+    WHEN 'call_info' THEN '📞 Call'
+    WHEN 'audio' THEN '🎤 Voice message'
+    WHEN 'file' THEN '📎 ' || left(coalesce(content, 'File'), 118)
+    WHEN 'poll' THEN '📊 ' || left(coalesce(content, ''), 118)
+    ELSE left(coalesce(content, ''), 120)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
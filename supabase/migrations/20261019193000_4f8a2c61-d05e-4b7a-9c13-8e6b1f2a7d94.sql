@@ -0,0 +1,15 @@
+-- The edit policy let senders rewrite any column of their messages, including the
+-- conversation, timestamps and the storage paths the bucket policies trust. Clients may
+-- only change what the UI edits; everything else goes through SECURITY DEFINER functions.
+REVOKE UPDATE ON public.messages FROM anon, authenticated;
+GRANT UPDATE (content, mentions, link_preview_hidden) ON public.messages TO authenticated;
+
+-- Only text messages are editable, like in the UI: system notices, call info and polls are
+-- written by the server and must not be rewritten. Deleted messages stay tombstones.
+DROP POLICY "Users can edit their own messages" ON public.messages;
+
+CREATE POLICY "Users can edit their own messages"
+ON public.messages
+FOR UPDATE
+USING (auth.uid() = sender_id AND message_type = 'text' AND deleted_at IS NULL)
+WITH CHECK (auth.uid() = sender_id AND message_type = 'text' AND deleted_at IS NULL);
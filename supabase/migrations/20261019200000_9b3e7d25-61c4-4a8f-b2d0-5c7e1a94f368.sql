@@ -0,0 +1,20 @@
+-- Storage deletes only match objects the caller can select. Deleting an image message for
+-- everyone clears its image_url first, after which no message references the object and the
+-- sender's remove() silently matched nothing. Uploaders can always see their own folder, as
+-- in the voice-notes and chat-files buckets.
+DROP POLICY "Users can view chat images in their conversations" ON storage.objects;
+
+CREATE POLICY "Users can view chat images in their conversations"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-images' AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.conversation_participants cp ON m.conversation_id = cp.conversation_id
+      WHERE public.chat_image_path(m.image_url) = storage.objects.name
+      AND cp.user_id = auth.uid()
+    )
+  )
+);